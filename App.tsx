@@ -4,16 +4,23 @@ import ImageStudio from './components/ImageStudio';
 import VideoGenerator from './components/VideoGenerator';
 import translations from './translations';
 import AnimatedWrapper from './components/AnimatedWrapper';
+import UsagePanel from './components/UsagePanel';
+import { OUTPUT_MIME_TYPES } from './utils/imagePreprocess';
+import type { ImageSizeInfo, OutputMimeType } from './utils/imagePreprocess';
 
 export type Language = 'en' | 'id' | 'zh';
 export interface ImageFile {
   file: File;
   base64: string;
+  // Present on uploads that went through preprocessing.
+  sizeInfo?: { original: ImageSizeInfo; processed: ImageSizeInfo };
 }
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<'image' | 'video'>('image');
   const [language, setLanguage] = useState<Language>('zh');
+  // Applies to every upload in both modes; undefined keeps PNG and WebP and turns the rest into JPEG.
+  const [uploadFormat, setUploadFormat] = useState<OutputMimeType | undefined>(undefined);
 
   const t = translations[language];
 
@@ -27,6 +34,17 @@ const App: React.FC = () => {
         <header className="relative mb-8">
             <div className="absolute top-0 right-0 z-10">
                  <AnimatedWrapper>
+                    <div className="flex items-center space-x-2">
+                    <select
+                      value={uploadFormat ?? ''}
+                      onChange={(e) => setUploadFormat((e.target.value || undefined) as OutputMimeType | undefined)}
+                      className="text-sm bg-gray-200 border-transparent rounded-lg py-1.5 text-gray-600 focus:ring-2 focus:ring-blue-500"
+                      aria-label={t.uploadFormat}
+                      title={t.uploadFormatHint}
+                    >
+                      <option value="">{t.uploadFormat}: {t.uploadFormatAuto}</option>
+                      {OUTPUT_MIME_TYPES.map(mimeType => <option key={mimeType} value={mimeType}>{t.uploadFormat}: {mimeType.replace('image/', '').toUpperCase()}</option>)}
+                    </select>
                     <div className="flex space-x-2 bg-gray-200 p-1 rounded-lg">
                     {(['id', 'en', 'zh'] as Language[]).map(lang => (
                         <button
@@ -39,6 +57,7 @@ const App: React.FC = () => {
                         </button>
                     ))}
                     </div>
+                    </div>
                 </AnimatedWrapper>
             </div>
             <AnimatedWrapper>
@@ -73,7 +92,13 @@ const App: React.FC = () => {
         </AnimatedWrapper>
         
         <AnimatedWrapper key={mode} delay={200}>
-            {mode === 'image' ? <ImageStudio t={t} /> : <VideoGenerator t={t} />}
+            {mode === 'image' ? <ImageStudio uploadFormat={uploadFormat} t={t} /> : <VideoGenerator uploadFormat={uploadFormat} t={t} />}
+        </AnimatedWrapper>
+
+        <AnimatedWrapper delay={300}>
+            <div className="mt-8">
+                <UsagePanel t={t} />
+            </div>
         </AnimatedWrapper>
 
       </div>
@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useRef, ChangeEvent } from 'react';
+import type { ImageFile } from '../App';
+import translations from '../translations';
+import { getGenerationProvider } from '../services/generationProvider';
+import type { ImageGenerationOptions } from '../services/generationProvider';
+import { cancelQueueJob, enqueueImageJob, isActiveJob, listQueueJobs, subscribeToQueue } from '../services/jobQueue';
+import type { ImageJobInput, QueueJob } from '../services/jobQueue';
+import { batchImageKey, parseBatchFile } from '../utils/batch';
+import type { BatchRow } from '../utils/batch';
+import { dataURLtoFile } from '../utils/imageFile';
+import { preprocessImageFile } from '../utils/imagePreprocess';
+import type { OutputMimeType } from '../utils/imagePreprocess';
+import { importMaskDataUrl, loadImageElement } from '../utils/mask';
+import { createZip, downloadBlob } from '../utils/zip';
+import type { ZipEntry } from '../utils/zip';
+import { DownloadIcon, LayersIcon, PhotoIcon, UploadIcon } from './Icons';
+import Spinner from './Spinner';
+import JobStatusBadge from './JobStatusBadge';
+import { generationErrorMessage } from './GenerationErrorAlert';
+
+interface BatchRunnerProps {
+  // Used by rows that do not name a base image of their own.
+  baseImage: ImageFile | null;
+  options: ImageGenerationOptions;
+  maxReferenceImages: number;
+  uploadFormat?: OutputMimeType;
+  onOpen: (job: QueueJob) => void;
+  t: (typeof translations)['en'];
+}
+
+interface BatchItem {
+  row: BatchRow;
+  // Name of the base image actually used, including the studio's fallback.
+  baseImageName: string | null;
+  // Null when the row could not be queued.
+  jobId: string | null;
+  error: string | null;
+}
+
+const mimeExtension = (mimeType: string) => mimeType.replace('image/', '').replace('jpeg', 'jpg');
+
+const BatchRunner: React.FC<BatchRunnerProps> = ({ baseImage, options, maxReferenceImages, uploadFormat, onOpen, t }) => {
+  const [listName, setListName] = useState<string | null>(null);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [images, setImages] = useState<Map<string, ImageFile>>(new Map());
+  const [items, setItems] = useState<BatchItem[]>([]);
+  // Last known state of this batch's jobs, kept even after they are cleared from the queue.
+  const [jobs, setJobs] = useState<Record<string, QueueJob>>({});
+  const [isLoadingImages, setIsLoadingImages] = useState(false);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const trackedIds = useRef(new Set<string>());
+
+  useEffect(() => subscribeToQueue(() => {
+    setJobs(prev => {
+      const next = { ...prev };
+      listQueueJobs().forEach(job => { if (trackedIds.current.has(job.id)) next[job.id] = job; });
+      return next;
+    });
+  }), []);
+
+  const handleListUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const parsed = parseBatchFile(await file.text(), file.name);
+      if (parsed.length === 0) throw new Error(t.errorBatchEmpty);
+      setRows(parsed);
+      setListName(file.name);
+    } catch (err) {
+      console.error("Error reading batch list:", err);
+      setError(`${t.errorBatchFile} ${err instanceof Error ? err.message : ''}`.trim());
+    }
+  };
+
+  const handleImagesUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = event.target.files ? Array.from(event.target.files) as File[] : [];
+    event.target.value = '';
+    if (files.length === 0) return;
+    setError(null);
+    setIsLoadingImages(true);
+    const failed: string[] = [];
+    const loaded = new Map(images);
+    for (const file of files) {
+      try {
+        if (!file.type.startsWith('image/')) throw new Error(t.errorInvalidImage);
+        loaded.set(batchImageKey(file.name), await preprocessImageFile(file, { mimeType: uploadFormat }));
+      } catch (err) {
+        console.error(err);
+        failed.push(file.name);
+      }
+    }
+    setImages(loaded);
+    setIsLoadingImages(false);
+    if (failed.length > 0) setError(`${t.errorImageDecode} ${failed.join(', ')}`);
+  };
+
+  const findImage = (name: string): ImageFile => {
+    const image = images.get(batchImageKey(name));
+    if (!image) throw new Error(t.errorBatchMissingImage(name));
+    return image;
+  };
+
+  const prepareRow = async (row: BatchRow): Promise<ImageJobInput> => {
+    if (!row.prompt) throw new Error(t.errorPromptEmpty);
+    if (row.references.length > maxReferenceImages) throw new Error(t.errorMaxRefImages(maxReferenceImages));
+    const rowBaseImage = row.baseImage ? findImage(row.baseImage) : baseImage;
+    const referenceImages = row.references.map(findImage);
+    let maskImage: ImageFile | null = null;
+    if (row.mask) {
+      if (!rowBaseImage) throw new Error(t.errorBatchMaskWithoutBase);
+      // Same normalization as a mask uploaded in the studio.
+      const mask = findImage(row.mask);
+      const baseImg = await loadImageElement(rowBaseImage.base64);
+      const normalized = await importMaskDataUrl(mask.base64, baseImg.naturalWidth, baseImg.naturalHeight);
+      maskImage = { file: dataURLtoFile(normalized, 'mask.png'), base64: normalized };
+    }
+    return { prompt: row.prompt, baseImage: rowBaseImage, maskImage, referenceImages, options, parentNodeId: null };
+  };
+
+  const handleRun = async () => {
+    setIsPreparing(true); setError(null);
+    const queued: BatchItem[] = [];
+    for (const row of rows) {
+      const baseImageName = row.baseImage ?? baseImage?.file.name ?? null;
+      try {
+        const job = enqueueImageJob(await prepareRow(row));
+        trackedIds.current.add(job.id);
+        setJobs(prev => ({ ...prev, [job.id]: job }));
+        queued.push({ row, baseImageName, jobId: job.id, error: null });
+      } catch (err) {
+        queued.push({ row, baseImageName, jobId: null, error: err instanceof Error ? err.message : t.errorUnexpected });
+      }
+    }
+    setItems(queued);
+    setIsPreparing(false);
+  };
+
+  const batchJobs = items.map(item => item.jobId ? jobs[item.jobId] : undefined);
+  const hasActiveJobs = batchJobs.some(job => job && isActiveJob(job));
+
+  const handleCancel = () => batchJobs.forEach(job => { if (job && isActiveJob(job)) cancelQueueJob(job.id); });
+
+  // The zip holds every result plus a manifest describing each row's inputs, outputs and errors.
+  const handleExport = async () => {
+    setIsZipping(true);
+    try {
+      const entries: ZipEntry[] = [];
+      const manifestRows = items.map((item, index) => {
+        const job = batchJobs[index];
+        const imageJob = job?.kind === 'image' ? job : null;
+        const results = imageJob?.result ?? [];
+        const outputs = results.map((result, resultIndex) => {
+          const name = `results/row-${String(index + 1).padStart(3, '0')}-${resultIndex + 1}.${mimeExtension(result.mimeType)}`;
+          entries.push({ name, data: dataURLtoFile(`data:${result.mimeType};base64,${result.base64Data}`, name) });
+          return name;
+        });
+        return {
+          row: index + 1,
+          prompt: item.row.prompt,
+          baseImage: item.baseImageName,
+          mask: item.row.mask,
+          references: item.row.references,
+          // What the row was queued with, which may differ from the studio's settings by now.
+          model: imageJob ? imageJob.input.options.model ?? getGenerationProvider().models.image : null,
+          options: imageJob?.input.options ?? null,
+          status: job?.status ?? 'skipped',
+          outputs,
+          error: item.error ?? job?.error?.message ?? null,
+          errorCode: job?.error?.code ?? null,
+        };
+      });
+      const manifest = { source: listName, exportedAt: new Date().toISOString(), rows: manifestRows };
+      entries.unshift({ name: 'manifest.json', data: JSON.stringify(manifest, null, 2) });
+      downloadBlob(await createZip(entries), 'batch-results.zip');
+    } catch (err) {
+      console.error("Error creating zip:", err);
+    } finally { setIsZipping(false); }
+  };
+
+  const handleReset = () => {
+    setItems([]); setRows([]); setListName(null); setImages(new Map()); setError(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-2">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center"><LayersIcon className="w-5 h-5 mr-2" />{t.batchRun}</h3>
+        {(rows.length > 0 || items.length > 0) && !hasActiveJobs && (
+          <button onClick={handleReset} className="text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors self-start sm:self-auto">{t.batchReset}</button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">{t.batchDescription}</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="flex items-center gap-3 p-3 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors">
+          <UploadIcon className="w-6 h-6 text-gray-400 flex-shrink-0" />
+          <span className="min-w-0">
+            <span className="block text-sm font-semibold text-blue-600">{t.batchListFile}</span>
+            <span className="block text-xs text-gray-500 truncate">{listName ? `${listName} · ${t.batchRowsLoaded(rows.length)}` : 'CSV / JSON'}</span>
+          </span>
+          <input type="file" className="sr-only" accept=".csv,.json,text/csv,application/json" onChange={handleListUpload} />
+        </label>
+        <label className="flex items-center gap-3 p-3 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer bg-gray-50 hover:bg-gray-100 transition-colors">
+          {isLoadingImages ? <Spinner size="sm" /> : <PhotoIcon className="w-6 h-6 text-gray-400 flex-shrink-0" />}
+          <span className="min-w-0">
+            <span className="block text-sm font-semibold text-blue-600">{t.batchImages}</span>
+            <span className="block text-xs text-gray-500 truncate">{t.batchImagesLoaded(images.size)}</span>
+          </span>
+          <input type="file" className="sr-only" accept="image/*" multiple onChange={handleImagesUpload} />
+        </label>
+      </div>
+      {error && <p className="text-red-600 bg-red-100 p-3 rounded-lg text-sm text-center mt-4 border border-red-200">{error}</p>}
+      <div className="flex flex-wrap items-center gap-2 mt-4">
+        <button onClick={handleRun} disabled={rows.length === 0 || isPreparing || isLoadingImages || hasActiveJobs} className="flex items-center px-4 py-2 text-sm font-semibold rounded-md text-white bg-gradient-to-r from-blue-600 to-cyan-500 hover:from-blue-700 hover:to-cyan-600 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-sm active:scale-95">
+          {isPreparing ? <Spinner size="sm" /> : <LayersIcon className="w-4 h-4" />}
+          <span className="ml-2">{t.runBatch}</span>
+        </button>
+        {hasActiveJobs && (
+          <button onClick={handleCancel} className="px-4 py-2 text-sm font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors">{t.cancelBatch}</button>
+        )}
+        {items.length > 0 && (
+          <button onClick={handleExport} disabled={hasActiveJobs || isZipping} className="flex items-center px-4 py-2 text-sm font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            {isZipping ? <Spinner size="sm" /> : <DownloadIcon className="w-4 h-4" />}
+            <span className="ml-2">{t.exportBatch}</span>
+          </button>
+        )}
+      </div>
+      {items.length > 0 && (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4 mt-4">
+          {items.map((item, index) => {
+            const job = batchJobs[index];
+            const results = job?.kind === 'image' ? job.result ?? [] : [];
+            return (
+              <div key={index} className="rounded-lg border border-gray-200 overflow-hidden bg-gray-50 flex flex-col animate-fade-in-up">
+                <div className="relative aspect-square bg-gray-100 flex items-center justify-center">
+                  {results.length > 0 && job ? (
+                    <button onClick={() => onOpen(job)} className="w-full h-full" title={t.openEntry}>
+                      <img src={`data:${results[0].mimeType};base64,${results[0].base64Data}`} alt={item.row.prompt} className="w-full h-full object-cover" />
+                      {results.length > 1 && <span className="absolute bottom-2 right-2 text-xs text-white bg-black/60 px-2 py-0.5 rounded-full">+{results.length - 1}</span>}
+                    </button>
+                  ) : job && isActiveJob(job) ? (
+                    <Spinner />
+                  ) : (
+                    <PhotoIcon className="w-10 h-10 text-gray-300" />
+                  )}
+                </div>
+                <div className="p-2 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs font-medium text-gray-500">{t.batchRowN(index + 1)}</span>
+                    {job ? <JobStatusBadge status={job.status} t={t} /> : <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-red-100 text-red-700">{t.batchSkipped}</span>}
+                  </div>
+                  <p className="text-xs text-gray-700 line-clamp-2" title={item.row.prompt}>{item.row.prompt || '—'}</p>
+                  {(item.error || (job?.status === 'failed' && job.error)) && (
+                    <p className="text-[10px] text-red-600 break-words">{item.error ?? (job?.error && generationErrorMessage(job.error, t))}</p>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchRunner;
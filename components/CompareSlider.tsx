@@ -0,0 +1,54 @@
+import React, { useState, useRef, useCallback } from 'react';
+import translations from '../translations';
+import { XIcon } from './Icons';
+
+interface CompareSliderProps {
+  beforeUrl: string;
+  afterUrl: string;
+  beforeLabel: string;
+  afterLabel: string;
+  onClose: () => void;
+  t: (typeof translations)['en'];
+}
+
+const CompareSlider: React.FC<CompareSliderProps> = ({ beforeUrl, afterUrl, beforeLabel, afterLabel, onClose, t }) => {
+  const [position, setPosition] = useState(50);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const isDragging = useRef(false);
+
+  const updatePosition = useCallback((clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    const percent = ((clientX - rect.left) / rect.width) * 100;
+    setPosition(Math.min(100, Math.max(0, percent)));
+  }, []);
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-80 z-50 flex flex-col items-center justify-center p-4" onClick={onClose}>
+        <div className="absolute top-4 right-4">
+            <button onClick={onClose} className="p-2 bg-white/20 rounded-full text-white hover:bg-white/40 transition-colors" aria-label={t.closeEditor}>
+                <XIcon className="w-6 h-6" />
+            </button>
+        </div>
+        <div
+            ref={containerRef}
+            className="relative max-w-5xl w-full select-none cursor-ew-resize rounded-lg overflow-hidden shadow-2xl animate-fade-in-up"
+            onClick={(e) => e.stopPropagation()}
+            onPointerDown={(e) => { isDragging.current = true; e.currentTarget.setPointerCapture(e.pointerId); updatePosition(e.clientX); }}
+            onPointerMove={(e) => { if (isDragging.current) updatePosition(e.clientX); }}
+            onPointerUp={() => { isDragging.current = false; }}
+        >
+            <img src={afterUrl} alt={afterLabel} className="block w-full max-h-[80vh] object-contain bg-black" draggable={false} />
+            <img src={beforeUrl} alt={beforeLabel} className="absolute inset-0 w-full h-full object-contain bg-black" style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }} draggable={false} />
+            <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }}>
+                <div className="absolute top-1/2 -translate-y-1/2 -translate-x-1/2 w-8 h-8 rounded-full bg-white shadow-lg border border-gray-300" />
+            </div>
+            <span className="absolute top-3 left-3 text-xs font-semibold text-white bg-black/60 px-2 py-1 rounded">{beforeLabel}</span>
+            <span className="absolute top-3 right-3 text-xs font-semibold text-white bg-black/60 px-2 py-1 rounded">{afterLabel}</span>
+        </div>
+        <input type="range" min="0" max="100" value={position} onClick={(e) => e.stopPropagation()} onChange={(e) => setPosition(Number(e.target.value))} className="w-64 mt-4 cursor-pointer" aria-label={t.compare} />
+    </div>
+  );
+};
+
+export default CompareSlider;
@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { ImageFile } from '../App';
+import translations from '../translations';
+import { loadImageElement } from '../utils/mask';
+import { canvasToImageFile, outputTypeFor } from '../utils/imagePreprocess';
+import { IDENTITY_TRANSFORM, centeredCropRect, cropCanvas, moveCropRect, rotateTransform, spanCropRect, transformImageCanvas } from '../utils/imageTransform';
+import type { CropRect, ImageTransform } from '../utils/imageTransform';
+import { CropIcon, RotateIcon, XIcon } from './Icons';
+import Spinner from './Spinner';
+
+interface CropEditorProps {
+  image: ImageFile;
+  onClose: () => void;
+  onSave: (image: ImageFile) => void;
+  t: (typeof translations)['en'];
+}
+
+type AspectPreset = 'free' | '1:1' | '16:9' | '9:16' | '4:3';
+
+const ASPECT_RATIOS: Record<AspectPreset, number | null> = {
+  'free': null,
+  '1:1': 1,
+  '16:9': 16 / 9,
+  '9:16': 9 / 16,
+  '4:3': 4 / 3,
+};
+
+// A click without dragging should not collapse the crop to nothing.
+const MIN_CROP_SIZE = 8;
+
+type Corner = 'nw' | 'ne' | 'sw' | 'se';
+const CORNERS: Corner[] = ['nw', 'ne', 'sw', 'se'];
+
+type DragState =
+  | { mode: 'move'; start: { x: number; y: number }; startRect: CropRect }
+  | { mode: 'span'; anchor: { x: number; y: number }; startRect: CropRect };
+
+const CropEditor: React.FC<CropEditorProps> = ({ image, onClose, onSave, t }) => {
+  const [sourceImg, setSourceImg] = useState<HTMLImageElement | null>(null);
+  const [transform, setTransform] = useState<ImageTransform>(IDENTITY_TRANSFORM);
+  const [aspect, setAspect] = useState<AspectPreset>('free');
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageElement(image.base64)
+      .then(img => { if (!cancelled) setSourceImg(img); })
+      .catch(err => console.error("Error loading image for cropping:", err));
+    return () => { cancelled = true; };
+  }, [image.base64]);
+
+  const transformed = useMemo(() => sourceImg ? transformImageCanvas(sourceImg, transform) : null, [sourceImg, transform]);
+  const previewUrl = useMemo(() => transformed?.toDataURL() ?? null, [transformed]);
+
+  // Rotating or switching presets starts over from the largest centered crop.
+  useEffect(() => {
+    if (transformed) setCrop(centeredCropRect(transformed.width, transformed.height, ASPECT_RATIOS[aspect]));
+  }, [transformed, aspect]);
+
+  const toImagePoint = (clientX: number, clientY: number) => {
+    const rect = frameRef.current?.getBoundingClientRect();
+    if (!rect || !transformed || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: Math.min(transformed.width, Math.max(0, (clientX - rect.left) / rect.width * transformed.width)),
+      y: Math.min(transformed.height, Math.max(0, (clientY - rect.top) / rect.height * transformed.height)),
+    };
+  };
+
+  const beginDrag = (e: React.PointerEvent, state: DragState) => {
+    e.preventDefault();
+    e.stopPropagation();
+    frameRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = state;
+  };
+
+  const handleFramePointerDown = (e: React.PointerEvent) => {
+    const point = toImagePoint(e.clientX, e.clientY);
+    if (!point || !crop) return;
+    beginDrag(e, { mode: 'span', anchor: point, startRect: crop });
+  };
+
+  const handleCropPointerDown = (e: React.PointerEvent) => {
+    const point = toImagePoint(e.clientX, e.clientY);
+    if (!point || !crop) return;
+    beginDrag(e, { mode: 'move', start: point, startRect: crop });
+  };
+
+  const handleCornerPointerDown = (e: React.PointerEvent, corner: Corner) => {
+    if (!crop) return;
+    // Resizing keeps the opposite corner fixed.
+    const anchor = {
+      x: corner.endsWith('w') ? crop.x + crop.width : crop.x,
+      y: corner.startsWith('n') ? crop.y + crop.height : crop.y,
+    };
+    beginDrag(e, { mode: 'span', anchor, startRect: crop });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const point = toImagePoint(e.clientX, e.clientY);
+    if (!drag || !point || !transformed) return;
+    if (drag.mode === 'move') {
+      setCrop(moveCropRect(drag.startRect, point.x - drag.start.x, point.y - drag.start.y, transformed.width, transformed.height));
+    } else {
+      setCrop(spanCropRect(drag.anchor, point, transformed.width, transformed.height, ASPECT_RATIOS[aspect]));
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && crop && (crop.width < MIN_CROP_SIZE || crop.height < MIN_CROP_SIZE)) {
+      setCrop(drag.startRect);
+    }
+  };
+
+  const rotate = (turns: number) => setTransform(prev => rotateTransform(prev, turns));
+
+  const handleReset = () => {
+    setTransform(IDENTITY_TRANSFORM);
+    setAspect('free');
+  };
+
+  const handleSave = async () => {
+    if (!transformed || !crop) return;
+    setIsSaving(true);
+    try {
+      const canvas = cropCanvas(transformed, crop);
+      const result = await canvasToImageFile(canvas, image.file.name, outputTypeFor(image.file.type));
+      onSave({
+        ...result,
+        sizeInfo: image.sizeInfo && {
+          original: image.sizeInfo.original,
+          processed: { bytes: result.file.size, width: canvas.width, height: canvas.height, mimeType: result.file.type },
+        },
+      });
+    } catch (err) {
+      console.error("Error cropping image:", err);
+      setIsSaving(false);
+    }
+  };
+
+  const percent = (value: number, total: number) => `${value / total * 100}%`;
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-80 z-50 flex flex-col items-center justify-center p-4">
+        <div className="absolute top-4 right-4">
+            <button onClick={onClose} className="p-2 bg-white/20 rounded-full text-white hover:bg-white/40 transition-colors" aria-label={t.closeEditor}>
+                <XIcon className="w-6 h-6" />
+            </button>
+        </div>
+        <div className="flex-grow w-full flex items-center justify-center pb-28 min-h-0">
+            {previewUrl && transformed && crop ? (
+                <div
+                    ref={frameRef}
+                    className="relative inline-block select-none touch-none overflow-hidden cursor-crosshair"
+                    onPointerDown={handleFramePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                >
+                    <img src={previewUrl} alt={t.cropImage} className="block max-w-[90vw] max-h-[70vh]" draggable={false} />
+                    <div
+                        className="absolute border-2 border-white cursor-move"
+                        style={{
+                            left: percent(crop.x, transformed.width),
+                            top: percent(crop.y, transformed.height),
+                            width: percent(crop.width, transformed.width),
+                            height: percent(crop.height, transformed.height),
+                            boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.55)',
+                        }}
+                        onPointerDown={handleCropPointerDown}
+                    >
+                        {CORNERS.map(corner => (
+                            <div
+                                key={corner}
+                                className={`absolute w-4 h-4 bg-white rounded-sm shadow ${corner.startsWith('n') ? '-top-2' : '-bottom-2'} ${corner.endsWith('w') ? '-left-2' : '-right-2'} ${corner === 'ne' || corner === 'sw' ? 'cursor-nesw-resize' : 'cursor-nwse-resize'}`}
+                                onPointerDown={(e) => handleCornerPointerDown(e, corner)}
+                            />
+                        ))}
+                    </div>
+                </div>
+            ) : (
+                <Spinner />
+            )}
+        </div>
+
+        <div className="absolute bottom-4 max-w-[95vw] bg-gray-800 text-white p-4 rounded-xl shadow-2xl flex flex-col sm:flex-row sm:flex-wrap justify-center items-center gap-4 sm:gap-6 animate-fade-in-up">
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <span className="text-sm font-medium whitespace-nowrap">{t.aspectRatio}:</span>
+                {(Object.keys(ASPECT_RATIOS) as AspectPreset[]).map(preset => (
+                    <button key={preset} onClick={() => setAspect(preset)} className={`px-3 py-2 text-sm rounded-md transition-colors ${aspect === preset ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`} aria-pressed={aspect === preset}>
+                        {preset === 'free' ? t.cropFree : preset}
+                    </button>
+                ))}
+            </div>
+
+            <div className="bg-gray-700 h-8 w-px hidden sm:block"></div>
+
+            <div className="flex items-center gap-2">
+                <button onClick={() => rotate(-1)} className="p-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors" aria-label={t.rotateLeft} title={t.rotateLeft}>
+                    <RotateIcon className="w-4 h-4 -scale-x-100" />
+                </button>
+                <button onClick={() => rotate(1)} className="p-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors" aria-label={t.rotateRight} title={t.rotateRight}>
+                    <RotateIcon className="w-4 h-4" />
+                </button>
+                <button onClick={() => setTransform(prev => ({ ...prev, flipHorizontal: !prev.flipHorizontal }))} className={`px-3 py-2 text-sm rounded-md transition-colors ${transform.flipHorizontal ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`} aria-pressed={transform.flipHorizontal}>{t.flipHorizontal}</button>
+                <button onClick={() => setTransform(prev => ({ ...prev, flipVertical: !prev.flipVertical }))} className={`px-3 py-2 text-sm rounded-md transition-colors ${transform.flipVertical ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`} aria-pressed={transform.flipVertical}>{t.flipVertical}</button>
+                <button onClick={handleReset} className="px-3 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors">{t.resetCrop}</button>
+            </div>
+
+            {crop && (
+                <span className="text-xs text-gray-300 whitespace-nowrap">{Math.round(crop.width)}×{Math.round(crop.height)}</span>
+            )}
+
+            <button onClick={handleSave} disabled={!crop || isSaving} className="w-full sm:w-auto px-6 py-2 text-sm font-semibold rounded-md bg-green-600 hover:bg-green-700 transition-colors flex items-center justify-center gap-2 disabled:opacity-50">
+                {isSaving ? <Spinner size="sm" /> : <CropIcon className="w-4 h-4" />} {t.applyCrop}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default CropEditor;
@@ -0,0 +1,56 @@
+import React, { useMemo } from 'react';
+import translations from '../translations';
+import { getChildNodes, getPathIds } from '../utils/editTree';
+import type { EditNode } from '../utils/editTree';
+import { BranchIcon } from './Icons';
+
+interface EditTreePanelProps {
+  nodes: EditNode[];
+  activeNodeId: string | null;
+  onSelect: (node: EditNode) => void;
+  disabled?: boolean;
+  t: (typeof translations)['en'];
+}
+
+const EditTreePanel: React.FC<EditTreePanelProps> = ({ nodes, activeNodeId, onSelect, disabled = false, t }) => {
+  const activePath = useMemo(() => getPathIds(nodes, activeNodeId), [nodes, activeNodeId]);
+
+  const renderBranch = (parentId: string | null): React.ReactNode =>
+    getChildNodes(nodes, parentId).map(node => {
+      const isActive = node.id === activeNodeId;
+      const isOnPath = activePath.has(node.id);
+      const hasChildren = nodes.some(child => child.parentId === node.id);
+      return (
+        <li key={node.id}>
+          <button
+            onClick={() => onSelect(node)}
+            disabled={disabled}
+            className={`flex items-center w-full gap-3 p-2 rounded-lg border text-left transition-colors disabled:cursor-not-allowed ${isActive ? 'border-blue-500 bg-blue-50' : isOnPath ? 'border-blue-200 bg-white hover:bg-gray-50' : 'border-gray-200 bg-white hover:bg-gray-50'}`}
+            aria-current={isActive}
+          >
+            <img src={node.image.base64} alt="" className="w-10 h-10 rounded-md object-cover border border-gray-200 flex-shrink-0" />
+            <span className={`text-xs line-clamp-2 ${isActive ? 'text-blue-700 font-semibold' : 'text-gray-700'}`}>{node.prompt ?? (node.parentId ? t.adjustedStep : t.uploadedStep)}</span>
+          </button>
+          {hasChildren && (
+            <ul className="mt-2 ml-5 pl-3 space-y-2 border-l border-gray-200">
+              {renderBranch(node.id)}
+            </ul>
+          )}
+        </li>
+      );
+    });
+
+  if (nodes.length === 0) return null;
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
+      <h3 className="text-lg font-semibold text-gray-800 flex items-center"><BranchIcon className="w-5 h-5 mr-2" />{t.editSteps}</h3>
+      <p className="text-xs text-gray-500 mb-4">{t.editStepsDescription}</p>
+      <ul className="space-y-2 max-h-80 overflow-y-auto pr-1">
+        {renderBranch(null)}
+      </ul>
+    </div>
+  );
+};
+
+export default EditTreePanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import translations from '../translations';
+import { GenerationError } from '../services/generationError';
+import { RetryIcon, XIcon } from './Icons';
+
+type Translations = (typeof translations)['en'];
+
+const safetyCategoryLabel = (category: string, t: Translations) => ({
+  HARASSMENT: t.safetyHarassment,
+  HATE_SPEECH: t.safetyHateSpeech,
+  SEXUALLY_EXPLICIT: t.safetySexuallyExplicit,
+  DANGEROUS_CONTENT: t.safetyDangerousContent,
+  CIVIC_INTEGRITY: t.safetyCivicIntegrity,
+} as Record<string, string>)[category] ?? category.toLowerCase().replace(/_/g, ' ');
+
+// One line describing the error in the UI language, for compact places like the queue.
+export const generationErrorMessage = (error: GenerationError, t: Translations): string => {
+  switch (error.code) {
+    case 'safety': return t.errorSafety;
+    case 'quota': return t.errorQuota;
+    case 'invalidKey': return t.errorInvalidKey;
+    case 'emptyResponse': return t.errorEmptyResponse;
+    case 'textInsteadOfImage': return t.errorTextInsteadOfImage;
+    case 'network': return t.errorNetwork;
+    case 'emptyPrompt': return t.errorEmptyPrompt;
+    default: return `${t.errorGenerationFailed} ${error.message}`;
+  }
+};
+
+interface GenerationErrorAlertProps {
+  // Plain strings are messages the studios have already translated, e.g. validation errors.
+  error: GenerationError | string;
+  onDismiss: () => void;
+  onRetry?: () => void;
+  // Offered for key errors where the studio can open the key picker.
+  onSelectKey?: () => void;
+  t: Translations;
+}
+
+// Stays until dismissed, so there is time to read the provider's explanation.
+const GenerationErrorAlert: React.FC<GenerationErrorAlertProps> = ({ error, onDismiss, onRetry, onSelectKey, t }) => {
+  const generationError = error instanceof GenerationError ? error : null;
+  const canRetry = !!onRetry && generationError !== null && generationError.code !== 'safety' && generationError.code !== 'emptyPrompt';
+  const canSelectKey = !!onSelectKey && generationError?.code === 'invalidKey';
+
+  return (
+    <div className="text-red-600 bg-red-100 p-3 rounded-lg text-sm border border-red-200" role="alert">
+      <div className="flex items-start gap-2">
+        <div className="flex-grow min-w-0 text-center space-y-1">
+          <p>{generationError ? generationErrorMessage(generationError, t) : error}</p>
+          {generationError && generationError.safetyCategories.length > 0 && (
+            <p className="text-xs">{t.errorSafetyCategories(generationError.safetyCategories.map(category => safetyCategoryLabel(category, t)).join(', '))}</p>
+          )}
+          {generationError?.code === 'textInsteadOfImage' && generationError.detail && (
+            <p className="text-xs text-gray-700 bg-white/70 rounded-md p-2 italic whitespace-pre-wrap break-words">{generationError.detail}</p>
+          )}
+        </div>
+        <button onClick={onDismiss} className="p-1 text-red-500 hover:text-red-700 hover:bg-red-200 rounded-full transition-colors flex-shrink-0" aria-label={t.dismiss} title={t.dismiss}>
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+      {(canRetry || canSelectKey) && (
+        <div className="flex justify-center gap-2 mt-2">
+          {canSelectKey && (
+            <button onClick={onSelectKey} className="px-3 py-1 text-xs font-semibold rounded-md bg-blue-600 hover:bg-blue-700 text-white shadow-sm transition-colors active:scale-95">{t.selectApiKey}</button>
+          )}
+          {canRetry && (
+            <button onClick={onRetry} className="flex items-center px-3 py-1 text-xs font-semibold rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors active:scale-95">
+              <RetryIcon className="w-4 h-4 mr-1" />{t.retry}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationErrorAlert;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import translations from '../translations';
+import { listHistoryEntries, deleteHistoryEntry, subscribeToHistory } from '../services/historyStore';
+import type { HistoryEntry } from '../services/historyStore';
+import { ClockIcon, SearchIcon, TrashIcon, VideoIcon } from './Icons';
+import Spinner from './Spinner';
+
+interface HistoryGalleryProps {
+  kind: HistoryEntry['kind'];
+  onOpen: (entry: HistoryEntry) => void;
+  disabled?: boolean;
+  t: (typeof translations)['en'];
+}
+
+const HistoryGallery: React.FC<HistoryGalleryProps> = ({ kind, onOpen, disabled = false, t }) => {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    let isActive = true;
+    const load = async () => {
+      try {
+        const all = await listHistoryEntries();
+        if (isActive) { setEntries(all.filter(entry => entry.kind === kind)); setError(null); }
+      } catch (err) {
+        console.error("Error loading history:", err);
+        if (isActive) setError(t.errorHistoryLoad);
+      } finally {
+        if (isActive) setIsLoading(false);
+      }
+    };
+    load();
+    const unsubscribe = subscribeToHistory(load);
+    return () => { isActive = false; unsubscribe(); };
+  }, [kind, t]);
+
+  // Video results are stored as blobs and need object URLs to be previewed.
+  const videoUrls = useMemo(() => {
+    const urls = new Map<string, string>();
+    entries.forEach(entry => {
+      if (entry.kind === 'video') urls.set(entry.id, URL.createObjectURL(entry.resultBlob));
+    });
+    return urls;
+  }, [entries]);
+
+  useEffect(() => () => videoUrls.forEach(url => URL.revokeObjectURL(url)), [videoUrls]);
+
+  const filteredEntries = useMemo(() => {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return entries;
+    return entries.filter(entry => entry.prompt.toLowerCase().includes(normalized));
+  }, [entries, query]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteHistoryEntry(id);
+    } catch (err) {
+      console.error("Error deleting history entry:", err);
+      setError(t.errorHistoryLoad);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center"><ClockIcon className="w-5 h-5 mr-2" />{t.history}</h3>
+        <div className="relative sm:w-64">
+          <SearchIcon className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input type="search" value={query} onChange={(e) => setQuery(e.target.value)} placeholder={t.searchHistory} className="block w-full pl-9 pr-3 py-2 sm:text-sm bg-gray-50 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400 transition" />
+        </div>
+      </div>
+      {error && <p className="text-red-600 bg-red-100 p-3 rounded-lg text-sm text-center mb-4 border border-red-200">{error}</p>}
+      {isLoading ? (
+        <div className="flex justify-center py-8"><Spinner /></div>
+      ) : filteredEntries.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 py-8">{entries.length === 0 ? t.historyEmpty : t.historyNoMatches}</p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {filteredEntries.map(entry => (
+            <div key={entry.id} className="group rounded-lg border border-gray-200 overflow-hidden bg-gray-50 flex flex-col animate-fade-in-up">
+              <div className="relative aspect-square bg-gray-100">
+                {entry.kind === 'image' ? (
+                  <img src={entry.resultDataUrl} alt={entry.prompt} className="w-full h-full object-cover" />
+                ) : (
+                  <>
+                    <video src={videoUrls.get(entry.id)} muted loop className="w-full h-full object-cover bg-black" onMouseEnter={(e) => e.currentTarget.play()} onMouseLeave={(e) => e.currentTarget.pause()} />
+                    <VideoIcon className="w-5 h-5 text-white absolute top-2 left-2 drop-shadow" />
+                  </>
+                )}
+                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                  <button onClick={() => onOpen(entry)} disabled={disabled} className="text-white bg-white/20 hover:bg-white/30 backdrop-blur-sm px-3 py-1.5 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed">{t.openEntry}</button>
+                  <button onClick={() => handleDelete(entry.id)} className="bg-white/20 rounded-full p-1.5 text-white hover:bg-white/40" aria-label={t.deleteEntry}>
+                    <TrashIcon className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+              <div className="p-2">
+                <p className="text-xs text-gray-700 line-clamp-2" title={entry.prompt}>{entry.prompt}</p>
+                <p className="text-[10px] text-gray-400 mt-1">{new Date(entry.createdAt).toLocaleString()} · {entry.model}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryGallery;
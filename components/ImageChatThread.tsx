@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useRef } from 'react';
+import translations from '../translations';
+import type { ChatTurn } from '../utils/imageChat';
+import { exportChatTurns } from '../utils/imageChat';
+import { downloadBlob } from '../utils/zip';
+import { extensionForDataUrl } from '../utils/imageFile';
+import { ArrowUturnIcon, ChatIcon, DownloadIcon } from './Icons';
+import Spinner from './Spinner';
+
+interface ImageChatThreadProps {
+  turns: ChatTurn[];
+  // True while the last model turn is still streaming in.
+  isSending: boolean;
+  model: string | undefined;
+  onNewConversation: () => void;
+  onUseImage: (dataUrl: string) => void;
+  t: (typeof translations)['en'];
+}
+
+const downloadDataUrl = (dataUrl: string, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = dataUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const ImageChatThread: React.FC<ImageChatThreadProps> = ({ turns, isSending, model, onNewConversation, onUseImage, t }) => {
+  const [isZipping, setIsZipping] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Follow the newest message without scrolling the whole page.
+  useEffect(() => {
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [turns]);
+
+  const handleExport = async () => {
+    setIsZipping(true);
+    try {
+      downloadBlob(await exportChatTurns(turns, model), 'conversation.zip');
+    } catch (err) {
+      console.error("Error creating zip:", err);
+    } finally { setIsZipping(false); }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center"><ChatIcon className="w-5 h-5 mr-2" />{t.conversation}</h3>
+        <div className="flex items-center gap-2">
+          <button onClick={onNewConversation} disabled={isSending || turns.length === 0} className="px-3 py-1.5 text-xs font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">{t.newConversation}</button>
+          <button onClick={handleExport} disabled={isSending || isZipping || turns.length === 0} className="flex items-center px-3 py-1.5 text-xs font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            {isZipping ? <Spinner size="sm" /> : <DownloadIcon className="w-4 h-4" />}
+            <span className="ml-1">{t.exportConversation}</span>
+          </button>
+        </div>
+      </div>
+      {turns.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-8">{t.conversationEmpty}</p>
+      ) : (
+        <div ref={listRef} className="space-y-4 max-h-[40rem] overflow-y-auto pr-1" aria-live="polite">
+          {turns.map((turn, turnIndex) => {
+            const isUser = turn.role === 'user';
+            const isStreaming = isSending && !isUser && turnIndex === turns.length - 1;
+            let imageIndex = 0;
+            return (
+              <div key={turn.id} className={`flex ${isUser ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-xl p-3 space-y-2 border ${isUser ? 'bg-blue-50 border-blue-100' : 'bg-gray-50 border-gray-200'}`}>
+                  <div className="flex items-center gap-2 text-xs font-semibold text-gray-500">
+                    <span>{isUser ? t.conversationYou : t.conversationModel}</span>
+                    {isStreaming && <Spinner size="sm" />}
+                  </div>
+                  {turn.parts.map((part, partIndex) => {
+                    if (part.type === 'text') {
+                      return <p key={partIndex} className="text-sm text-gray-800 whitespace-pre-wrap break-words">{part.text}</p>;
+                    }
+                    const fileName = `turn-${String(turnIndex + 1).padStart(2, '0')}-${++imageIndex}.${extensionForDataUrl(part.dataUrl)}`;
+                    return (
+                      <div key={partIndex} className="relative group">
+                        <img src={part.dataUrl} alt={isUser ? t.originalImage : t.generatedImage} className={`${isUser ? 'max-h-32' : 'max-h-72'} rounded-lg border border-gray-200 animate-fade-in-up`} />
+                        {!isUser && !isStreaming && (
+                          <div className="absolute top-1.5 right-1.5 flex gap-1 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                            <button onClick={() => onUseImage(part.dataUrl)} className="p-1.5 bg-white/90 text-gray-600 hover:text-blue-600 rounded-full shadow-sm transition-colors" aria-label={t.useAsBaseImage} title={t.useAsBaseImage}>
+                              <ArrowUturnIcon className="w-4 h-4" />
+                            </button>
+                            <button onClick={() => downloadDataUrl(part.dataUrl, fileName)} className="p-1.5 bg-white/90 text-gray-600 hover:text-blue-600 rounded-full shadow-sm transition-colors" aria-label={t.downloadImage} title={t.downloadImage}>
+                              <DownloadIcon className="w-4 h-4" />
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageChatThread;
@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ImageFile } from '../App';
+import translations from '../translations';
+import { formatBytes } from '../utils/imagePreprocess';
+import type { ImageSizeInfo } from '../utils/imagePreprocess';
+
+interface ImageSizeSummaryProps {
+  image: ImageFile;
+  // Stacks the two sizes for narrow thumbnails.
+  compact?: boolean;
+  t: (typeof translations)['en'];
+}
+
+const describe = (info: ImageSizeInfo) => `${info.width}×${info.height} · ${formatBytes(info.bytes)}`;
+
+const ImageSizeSummary: React.FC<ImageSizeSummaryProps> = ({ image, compact = false, t }) => {
+  if (!image.sizeInfo) return null;
+  const { original, processed } = image.sizeInfo;
+  if (compact) {
+    return (
+      <p className="text-[10px] leading-tight text-gray-500 mt-1 text-center" title={`${t.originalSize}: ${describe(original)}\n${t.processedSize}: ${describe(processed)}`}>
+        {formatBytes(original.bytes)} → {formatBytes(processed.bytes)}
+      </p>
+    );
+  }
+  return (
+    <div className="flex flex-wrap justify-between gap-x-4 text-xs text-gray-500">
+      <span>{t.originalSize}: {describe(original)}</span>
+      <span>{t.processedSize}: {describe(processed)}</span>
+    </div>
+  );
+};
+
+export default ImageSizeSummary;
@@ -1,29 +1,71 @@
 import React, { useState, useCallback, ChangeEvent, useRef, DragEvent, useEffect } from 'react';
 import type { ImageFile } from '../App';
 import translations from '../translations';
-import { generateOrEditImage, enhancePrompt } from '../services/geminiService';
-import { PhotoIcon, SparklesIcon, TrashIcon, GripVerticalIcon, DownloadIcon, MaskIcon } from './Icons';
+import { getGenerationProvider, startImageChat } from '../services/generationProvider';
+import type { ImageAspectRatio, ImageChatSession, ImageGenerationOptions, ImageStreamPart } from '../services/generationProvider';
+import { enqueueImageJob, getQueueJob, isActiveJob, listQueueJobs, retryQueueJob, subscribeToQueue } from '../services/jobQueue';
+import type { QueueJob } from '../services/jobQueue';
+import { toGenerationError } from '../services/generationError';
+import type { GenerationError } from '../services/generationError';
+import type { HistoryEntry, StoredImage } from '../services/historyStore';
+import { dataURLtoImageFile, extensionForDataUrl, toInlineImage } from '../utils/imageFile';
+import { importMaskDataUrl, loadImageElement } from '../utils/mask';
+import { OUTPUT_MIME_TYPES, preprocessImageFile } from '../utils/imagePreprocess';
+import type { OutputMimeType } from '../utils/imagePreprocess';
+import { createEditNode } from '../utils/editTree';
+import type { EditNode } from '../utils/editTree';
+import { createChatTurn, toChatTurnParts } from '../utils/imageChat';
+import { discardMaskSessions } from '../utils/maskHistory';
+import type { ChatTurn } from '../utils/imageChat';
+import { PhotoIcon, SparklesIcon, TrashIcon, GripVerticalIcon, DownloadIcon, MaskIcon, ArrowUturnIcon, UploadIcon, BookmarkIcon, ChatIcon } from './Icons';
 import Spinner from './Spinner';
 import AnimatedWrapper from './AnimatedWrapper';
 import MaskingEditor from './MaskingEditor';
+import CropEditor from './CropEditor';
+import HistoryGallery from './HistoryGallery';
+import EditTreePanel from './EditTreePanel';
+import VariationGrid from './VariationGrid';
+import JobQueuePanel from './JobQueuePanel';
+import BatchRunner from './BatchRunner';
+import PromptLibrary from './PromptLibrary';
+import PromptEnhancer from './PromptEnhancer';
+import ImageSizeSummary from './ImageSizeSummary';
+import GenerationErrorAlert from './GenerationErrorAlert';
+import RequestActivityNotice from './RequestActivityNotice';
+import UsageBudgetNotice from './UsageBudgetNotice';
+import ModelResponseStream from './ModelResponseStream';
+import ImageChatThread from './ImageChatThread';
 
 interface ImageStudioProps {
+  // Format uploads are converted to; undefined picks one from the uploaded file.
+  uploadFormat?: OutputMimeType;
   t: (typeof translations)['en'];
 }
 
 const MAX_REFERENCE_IMAGES = 3;
+const MAX_VARIATIONS = 4;
+const EDIT_MODES = ['single', 'chat'] as const;
+const IMAGE_ASPECT_RATIOS: ImageAspectRatio[] = ['1:1', '3:4', '4:3', '9:16', '16:9', '21:9'];
 
-const ImageDisplay: React.FC<{ title: string; imageUrl: string | null; isLoading?: boolean; onDownload?: () => void; text: { imageWillAppear: string; downloadImage: string } }> = ({ title, imageUrl, isLoading = false, onDownload, text }) => {
+const ImageDisplay: React.FC<{ title: string; imageUrl: string | null; isLoading?: boolean; caption?: string; onDownload?: () => void; onContinueEditing?: () => void; text: { imageWillAppear: string; downloadImage: string; continueEditing?: string } }> = ({ title, imageUrl, isLoading = false, caption, onDownload, onContinueEditing, text }) => {
   return (
     <div className="w-full">
       <div className="flex justify-between items-center mb-2">
         <h2 className="text-lg font-semibold text-gray-700">{title}</h2>
-        {imageUrl && onDownload && (
-            <button onClick={onDownload} className="flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors" title={text.downloadImage}>
-                <DownloadIcon className="w-4 h-4 mr-1" />
-                <span>Download</span>
-            </button>
-        )}
+        <div className="flex items-center space-x-4">
+          {imageUrl && onContinueEditing && (
+              <button onClick={onContinueEditing} className="flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors" title={text.continueEditing}>
+                  <ArrowUturnIcon className="w-4 h-4 mr-1" />
+                  <span>{text.continueEditing}</span>
+              </button>
+          )}
+          {imageUrl && onDownload && (
+              <button onClick={onDownload} className="flex items-center text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors" title={text.downloadImage}>
+                  <DownloadIcon className="w-4 h-4 mr-1" />
+                  <span>Download</span>
+              </button>
+          )}
+        </div>
       </div>
       <div className="w-full aspect-square bg-white rounded-lg border-2 border-dashed border-gray-300 flex items-center justify-center relative overflow-hidden shadow-sm">
         {isLoading && (
@@ -40,6 +82,7 @@ const ImageDisplay: React.FC<{ title: string; imageUrl: string | null; isLoading
           </div>
         )}
       </div>
+      {imageUrl && caption && <p className="mt-2 text-sm text-gray-600 whitespace-pre-wrap break-words">{caption}</p>}
     </div>
   );
 };
@@ -53,39 +96,73 @@ const fileToBase64 = (file: File): Promise<string> => {
     });
 };
 
-const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+const fromStoredImage = (image: StoredImage) => dataURLtoImageFile(image.dataUrl, image.name);
+
+const ImageStudio: React.FC<ImageStudioProps> = ({ uploadFormat, t }) => {
+  const [error, setError] = useState<GenerationError | string | null>(null);
   const [originalImage, setOriginalImage] = useState<ImageFile | null>(null);
   const [maskImage, setMaskImage] = useState<ImageFile | null>(null);
   const [editedImage, setEditedImage] = useState<string | null>(null);
   const [referenceImages, setReferenceImages] = useState<ImageFile[]>([]);
   const [prompt, setPrompt] = useState<string>('');
-  const [isEnhancing, setIsEnhancing] = useState<boolean>(false);
+  const [isEnhancerOpen, setIsEnhancerOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
   const [isDraggingOver, setIsDraggingOver] = useState(false);
   const [isMaskingEditorOpen, setIsMaskingEditorOpen] = useState(false);
+  const [isCropEditorOpen, setIsCropEditorOpen] = useState(false);
+  const [editNodes, setEditNodes] = useState<EditNode[]>([]);
+  const [activeNodeId, setActiveNodeId] = useState<string | null>(null);
+  const [resultNodeId, setResultNodeId] = useState<string | null>(null);
+  const [variationCount, setVariationCount] = useState<number>(1);
+  const [variations, setVariations] = useState<EditNode[]>([]);
+  const [imageOptions, setImageOptions] = useState<ImageGenerationOptions>(() => ({ model: getGenerationProvider().models.image }));
+  // The model of the history entry opened last, to point out when it is not the one selected.
+  const [openedEntryModel, setOpenedEntryModel] = useState<string | null>(null);
+  const [queueJobs, setQueueJobs] = useState<QueueJob[]>(listQueueJobs);
+  // The latest submitted job, whose results open as soon as it finishes.
+  const [pendingJobId, setPendingJobId] = useState<string | null>(null);
+  const [shownJobId, setShownJobId] = useState<string | null>(null);
+  // The job behind the error shown, so it can be retried from the alert.
+  const [failedJobId, setFailedJobId] = useState<string | null>(null);
+  const [editMode, setEditMode] = useState<(typeof EDIT_MODES)[number]>('single');
+  const [chatTurns, setChatTurns] = useState<ChatTurn[]>([]);
+  const [isChatSending, setIsChatSending] = useState(false);
+  // Started with the first message, so it uses the model and aspect ratio chosen by then.
+  const chatSessionRef = useRef<{ session: ImageChatSession; model: string | undefined } | null>(null);
+  const openedJobNodes = useRef(new Map<string, EditNode[]>());
   const dragImage = useRef<number | null>(null);
   const dragOverImage = useRef<number | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const maskInputRef = useRef<HTMLInputElement>(null);
+
+  const pendingJob = queueJobs.find(job => job.id === pendingJobId);
+  const isLoading = !!pendingJob && isActiveJob(pendingJob);
+  // A conversation keeps the model and aspect ratio it started with.
+  const isChatLocked = editMode === 'chat' && chatTurns.length > 0;
+
+  useEffect(() => subscribeToQueue(() => setQueueJobs(listQueueJobs())), []);
 
+  // Forget the mask undo history of images that left the edit tree.
+  const treeImagesRef = useRef<string[]>([]);
   useEffect(() => {
-    if (error) {
-        const timer = setTimeout(() => setError(null), 5000);
-        return () => clearTimeout(timer);
-    }
-  }, [error]);
+    const current = editNodes.map(node => node.image.base64);
+    discardMaskSessions(treeImagesRef.current.filter(url => !current.includes(url)));
+    treeImagesRef.current = current;
+  }, [editNodes]);
 
   const handleImageUpload = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       if (!file.type.startsWith('image/')) { setError(t.errorInvalidImage); return; }
-      setError(null); setEditedImage(null); setMaskImage(null);
+      setError(null); setEditedImage(null); setMaskImage(null); setVariations([]);
       try {
-        const base64 = await fileToBase64(file);
-        setOriginalImage({ file, base64 });
-      } catch (err) { setError(t.errorReadFile); console.error(err); }
+        const image = await preprocessImageFile(file, { mimeType: uploadFormat });
+        const root = createEditNode(image, null, null);
+        setOriginalImage(image);
+        setEditNodes([root]); setActiveNodeId(root.id); setResultNodeId(null);
+      } catch (err) { setError(t.errorImageDecode); console.error(err); }
     }
-  }, [t]);
+  }, [uploadFormat, t]);
 
   const processAndSetReferenceFiles = useCallback(async (files: FileList) => {
     if (referenceImages.length + files.length > MAX_REFERENCE_IMAGES) {
@@ -94,17 +171,19 @@ const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
     setError(null);
     try {
         const newImages = await Promise.all(Array.from(files).map(async (file) => {
-            if (!(file instanceof File)) { throw new Error('An uploaded item was not a valid file.'); }
+            if (!(file instanceof File)) { throw new Error(t.errorReadFile); }
             if (!file.type.startsWith('image/')) { throw new Error(t.errorInvalidImage); }
-            const base64 = await fileToBase64(file);
-            return { file, base64 };
+            return preprocessImageFile(file, { mimeType: uploadFormat }).catch(err => {
+                console.error(err);
+                throw new Error(t.errorImageDecode);
+            });
         }));
         setReferenceImages(prev => [...prev, ...newImages]);
     } catch (err) {
         setError(err instanceof Error ? err.message : t.errorReadFile);
         console.error(err);
     }
-  }, [referenceImages.length, t]);
+  }, [referenceImages.length, uploadFormat, t]);
   
   const handleReferenceImageUpload = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
     if (event.target.files) { processAndSetReferenceFiles(event.target.files); }
@@ -128,39 +207,187 @@ const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
     setReferenceImages(newImages);
   };
   
-  const handleEnhancePrompt = async () => {
-    if (!prompt) return;
-    setIsEnhancing(true); setError(null);
-    try {
-      const enhanced = await enhancePrompt(prompt);
-      setPrompt(enhanced);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : typeof err === 'string' ? err : t.errorEnhanceFailed;
-      setError(errorMessage);
-    } finally { setIsEnhancing(false); }
-  };
-
   const handleSaveMask = (maskFile: ImageFile) => {
     setMaskImage(maskFile);
     setIsMaskingEditorOpen(false);
   };
+
+  // A crop changes the image's dimensions, so any existing mask no longer fits.
+  const handleSaveCrop = (image: ImageFile) => {
+    const node = createEditNode(image, activeNodeId, null);
+    setEditNodes(prev => [...prev, node]);
+    setActiveNodeId(node.id);
+    setOriginalImage(image);
+    setMaskImage(null);
+    setIsCropEditorOpen(false);
+  };
+
+  // Masks made in other tools are resized to the base image and normalized to white-on-black.
+  const handleMaskUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !originalImage) return;
+    if (!file.type.startsWith('image/')) { setError(t.errorInvalidImage); return; }
+    setError(null);
+    try {
+      const [maskUrl, baseImg] = await Promise.all([fileToBase64(file), loadImageElement(originalImage.base64)]);
+      const normalized = await importMaskDataUrl(maskUrl, baseImg.naturalWidth, baseImg.naturalHeight);
+      setMaskImage(dataURLtoImageFile(normalized, 'mask.png'));
+    } catch (err) { setError(t.errorInvalidMask); console.error(err); }
+  };
   
-  const handleSubmit = async () => {
+  const handleSubmit = () => {
+    if (!prompt.trim()) { setError(t.errorPromptEmpty); return; }
+    setError(null); setEditedImage(null); setResultNodeId(null); setVariations([]);
+    const job = enqueueImageJob({
+      prompt,
+      baseImage: originalImage,
+      maskImage,
+      referenceImages,
+      options: { ...imageOptions, numberOfImages: variationCount },
+      parentNodeId: originalImage ? activeNodeId : null,
+    });
+    setPendingJobId(job.id);
+  };
+
+  // The first message carries the base and reference images. Later turns only send the
+  // instruction, since the session already holds every image exchanged so far.
+  const handleSendChatMessage = async () => {
     if (!prompt.trim()) { setError(t.errorPromptEmpty); return; }
-    setIsLoading(true); setError(null); setEditedImage(null);
+    if (!chatSessionRef.current) {
+      chatSessionRef.current = { session: startImageChat(imageOptions), model: imageOptions.model };
+    }
+    const attachments = chatTurns.length === 0 ? [...(originalImage ? [originalImage] : []), ...referenceImages] : [];
+    const message = prompt;
+    const userTurn = createChatTurn('user', [...attachments.map(image => ({ type: 'image' as const, dataUrl: image.base64 })), { type: 'text', text: message }]);
+    const modelTurn = createChatTurn('model', []);
+    const updateModelTurn = (parts: ImageStreamPart[]) =>
+      setChatTurns(prev => prev.map(turn => turn.id === modelTurn.id ? { ...turn, parts: toChatTurnParts(parts) } : turn));
+    setError(null); setFailedJobId(null); setPrompt('');
+    setChatTurns(prev => [...prev, userTurn, modelTurn]);
+    setIsChatSending(true);
     try {
-      const baseImageData = originalImage ? { base64Data: originalImage.base64.split(',')[1], mimeType: originalImage.file.type } : null;
-      const maskImageData = maskImage ? { base64Data: maskImage.base64.split(',')[1], mimeType: maskImage.file.type } : null;
-      const refImagesData = referenceImages.map(ref => ({ base64Data: ref.base64.split(',')[1], mimeType: ref.file.type }));
-      
-      const resultBase64 = await generateOrEditImage(prompt, baseImageData, refImagesData, maskImageData);
-      setEditedImage(`data:image/png;base64,${resultBase64}`);
+      updateModelTurn(await chatSessionRef.current.session.send(message, attachments.map(toInlineImage), updateModelTurn));
     } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : typeof err === 'string' ? err : t.errorUnexpected;
-        setError(errorMessage);
-    } finally { setIsLoading(false); }
+      // The session forgets a failed turn, so the thread drops it and the message can be sent again.
+      setChatTurns(prev => prev.filter(turn => turn.id !== userTurn.id && turn.id !== modelTurn.id));
+      setPrompt(message);
+      setError(toGenerationError(err));
+    } finally {
+      setIsChatSending(false);
+    }
+  };
+
+  const handleNewConversation = () => {
+    chatSessionRef.current = null;
+    setChatTurns([]);
+    setError(null);
+  };
+
+  // Results join the edit tree under the step they were made from. If that step is
+  // gone, e.g. after a new upload, the job's base image starts a new root.
+  const handleOpenQueueJob = (job: QueueJob) => {
+    if (job.kind !== 'image' || !job.result) return;
+    const { prompt: jobPrompt, baseImage, parentNodeId } = job.input;
+    let resultNodes = openedJobNodes.current.get(job.id);
+    if (!resultNodes) {
+      const parentInTree = parentNodeId !== null && editNodes.some(node => node.id === parentNodeId);
+      const root = baseImage && !parentInTree ? createEditNode(baseImage, null, null) : null;
+      const parentId = parentInTree ? parentNodeId : root?.id ?? null;
+      resultNodes = job.result.map((result, index) => {
+        const dataUrl = `data:${result.mimeType};base64,${result.base64Data}`;
+        return createEditNode(dataURLtoImageFile(dataUrl, `variation-${index + 1}.${extensionForDataUrl(dataUrl)}`), parentId, jobPrompt, result.caption);
+      });
+      openedJobNodes.current.set(job.id, resultNodes);
+      const newNodes = root ? [root, ...resultNodes] : resultNodes;
+      setEditNodes(prev => [...prev, ...newNodes]);
+    }
+    setError(null);
+    setShownJobId(job.id);
+    setEditedImage(resultNodes[0].image.base64);
+    setResultNodeId(resultNodes[0].id);
+    setVariations(resultNodes.length > 1 ? resultNodes : []);
+  };
+
+  // Open the latest submitted job's results, or show its error, once it finishes.
+  useEffect(() => {
+    if (!pendingJob || isActiveJob(pendingJob)) return;
+    setPendingJobId(null);
+    if (pendingJob.status === 'succeeded') handleOpenQueueJob(pendingJob);
+    else if (pendingJob.status === 'failed' && pendingJob.error) {
+      setError(pendingJob.error);
+      setFailedJobId(pendingJob.id);
+    }
+  }, [pendingJob]);
+
+  const handleRetryFailedJob = () => {
+    setError(null);
+    setFailedJobId(null);
+    if (!failedJobId || !getQueueJob(failedJobId)) return;
+    retryQueueJob(failedJobId);
+    setPendingJobId(failedJobId);
   };
   
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    if (entry.kind !== 'image') return;
+    setError(null);
+    setPendingJobId(null);
+    setShownJobId(null);
+    setPrompt(entry.prompt);
+    setOriginalImage(entry.baseImage ? fromStoredImage(entry.baseImage) : null);
+    setMaskImage(entry.maskImage ? fromStoredImage(entry.maskImage) : null);
+    setReferenceImages(entry.referenceImages.map(fromStoredImage));
+    // A conversation in progress keeps its model and aspect ratio, and models no longer
+    // offered are not selected.
+    const canUseModel = !isChatLocked && getGenerationProvider().models.imageChoices.includes(entry.model);
+    const { numberOfImages, ...options } = entry.options ?? {};
+    setImageOptions(prev => ({
+      ...(entry.options ? options : prev),
+      model: canUseModel ? entry.model : prev.model,
+      ...(isChatLocked && { aspectRatio: prev.aspectRatio }),
+    }));
+    if (entry.options) setVariationCount(numberOfImages ?? 1);
+    setOpenedEntryModel(entry.model);
+    setEditedImage(entry.resultDataUrl);
+    setVariations([]);
+    const root = entry.baseImage ? createEditNode(fromStoredImage(entry.baseImage), null, null) : null;
+    const resultNode = createEditNode(dataURLtoImageFile(entry.resultDataUrl, `edit-step.${extensionForDataUrl(entry.resultDataUrl)}`), root?.id ?? null, entry.prompt);
+    setEditNodes(root ? [root, resultNode] : [resultNode]);
+    setActiveNodeId(root?.id ?? null);
+    setResultNodeId(resultNode.id);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSelectEditNode = (node: EditNode) => {
+    setOriginalImage(node.image);
+    setMaskImage(null);
+    setEditedImage(null);
+    setVariations([]);
+    setActiveNodeId(node.id);
+    setResultNodeId(null);
+    setError(null);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handlePickFavorite = (node: EditNode) => {
+    setEditedImage(node.image.base64);
+    setResultNodeId(node.id);
+  };
+
+  // Brings an image from the conversation into single edits as a new root step.
+  const handleUseChatImage = (dataUrl: string) => {
+    const node = createEditNode(dataURLtoImageFile(dataUrl, `conversation-image.${extensionForDataUrl(dataUrl)}`), null, null);
+    setEditNodes(prev => [...prev, node]);
+    handleSelectEditNode(node);
+    setEditMode('single');
+  };
+
+  const handleContinueEditing = () => {
+    const resultNode = editNodes.find(node => node.id === resultNodeId);
+    if (resultNode) handleSelectEditNode(resultNode);
+  };
+
   const downloadImage = (base64Image: string, fileName: string) => {
     const link = document.createElement('a');
     link.href = base64Image;
@@ -182,6 +409,9 @@ const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
                 t={t}
             />
         )}
+        {isCropEditorOpen && originalImage && (
+            <CropEditor image={originalImage} onClose={() => setIsCropEditorOpen(false)} onSave={handleSaveCrop} t={t} />
+        )}
         <div className="space-y-6">
             <AnimatedWrapper delay={0}>
                 <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
@@ -193,9 +423,11 @@ const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
                                 <img src={originalImage.base64} alt="Original" className="w-full rounded-lg object-cover" />
                                 <div className="absolute inset-0 bg-black bg-opacity-50 flex items-center justify-center opacity-0 group-hover:opacity-100 transition-opacity rounded-lg">
                                     <button onClick={() => fileInputRef.current?.click()} className="text-white bg-white/20 hover:bg-white/30 backdrop-blur-sm p-2 rounded-md mx-1">{t.changeImage}</button>
-                                    <button onClick={() => {setOriginalImage(null); setMaskImage(null); if(fileInputRef.current) fileInputRef.current.value = '';}} className="text-white bg-white/20 hover:bg-white/30 backdrop-blur-sm p-2 rounded-md mx-1">{t.removeImage}</button>
+                                    <button onClick={() => setIsCropEditorOpen(true)} className="text-white bg-white/20 hover:bg-white/30 backdrop-blur-sm p-2 rounded-md mx-1">{t.cropImage}</button>
+                                    <button onClick={() => {setOriginalImage(null); setMaskImage(null); setActiveNodeId(null); if(fileInputRef.current) fileInputRef.current.value = '';}} className="text-white bg-white/20 hover:bg-white/30 backdrop-blur-sm p-2 rounded-md mx-1">{t.removeImage}</button>
                                 </div>
                             </div>
+                            <ImageSizeSummary image={originalImage} t={t} />
                             <div className="flex items-center space-x-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
                                 {maskImage ? (
                                     <img src={maskImage.base64} alt="Mask Preview" className="w-12 h-12 rounded-md border bg-gray-800" />
@@ -211,6 +443,15 @@ const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
                                 <button onClick={() => setIsMaskingEditorOpen(true)} className="px-3 py-2 text-sm font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors active:scale-95">
                                     {maskImage ? t.editMask : t.addMask}
                                 </button>
+                                <input type="file" className="sr-only" accept="image/*" onChange={handleMaskUpload} ref={maskInputRef} />
+                                <button onClick={() => maskInputRef.current?.click()} className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-full transition-colors" aria-label={t.uploadMask} title={t.uploadMask}>
+                                    <UploadIcon className="w-5 h-5" />
+                                </button>
+                                {maskImage && (
+                                    <button onClick={() => downloadImage(maskImage.base64, 'mask.png')} className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-full transition-colors" aria-label={t.downloadMask} title={t.downloadMask}>
+                                        <DownloadIcon className="w-5 h-5" />
+                                    </button>
+                                )}
                                 {maskImage && (
                                     <button onClick={() => setMaskImage(null)} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors" aria-label={t.removeMask}>
                                         <TrashIcon className="w-5 h-5" />
@@ -248,14 +489,17 @@ const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
                         {referenceImages.length > 0 && (
                             <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 animate-fade-in-up">
                                 {referenceImages.map((image, index) => (
-                                    <div key={index} className="relative group aspect-square cursor-grab" draggable onDragStart={() => dragImage.current = index} onDragEnter={() => dragOverImage.current = index} onDragEnd={handleSortReferenceImages} onDragOver={(e) => e.preventDefault()}>
-                                        <img src={image.base64} alt={`Reference ${index + 1}`} className="w-full h-full object-cover rounded-md border-2 border-gray-300" />
-                                        <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-md flex items-center justify-center">
-                                            <button onClick={() => handleRemoveReferenceImage(index)} className="absolute top-1 right-1 bg-white/20 rounded-full p-1 text-white hover:bg-white/40" aria-label="Remove image">
-                                                <TrashIcon className="w-4 h-4" />
-                                            </button>
-                                            <GripVerticalIcon className="w-6 h-6 text-white" />
+                                    <div key={index}>
+                                        <div className="relative group aspect-square cursor-grab" draggable onDragStart={() => dragImage.current = index} onDragEnter={() => dragOverImage.current = index} onDragEnd={handleSortReferenceImages} onDragOver={(e) => e.preventDefault()}>
+                                            <img src={image.base64} alt={`Reference ${index + 1}`} className="w-full h-full object-cover rounded-md border-2 border-gray-300" />
+                                            <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity rounded-md flex items-center justify-center">
+                                                <button onClick={() => handleRemoveReferenceImage(index)} className="absolute top-1 right-1 bg-white/20 rounded-full p-1 text-white hover:bg-white/40" aria-label="Remove image">
+                                                    <TrashIcon className="w-4 h-4" />
+                                                </button>
+                                                <GripVerticalIcon className="w-6 h-6 text-white" />
+                                            </div>
                                         </div>
+                                        <ImageSizeSummary image={image} compact t={t} />
                                     </div>
                                 ))}
                                 {referenceImages.length < MAX_REFERENCE_IMAGES && (
@@ -265,7 +509,7 @@ const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
                                 )}
                             </div>
                         )}
-                        <input id="reference-upload" type="file" className="sr-only" accept="image/*" multiple onChange={handleReferenceImageUpload} disabled={isLoading || referenceImages.length >= MAX_REFERENCE_IMAGES} />
+                        <input id="reference-upload" type="file" className="sr-only" accept="image/*" multiple onChange={handleReferenceImageUpload} disabled={referenceImages.length >= MAX_REFERENCE_IMAGES} />
                     </div>
                 </div>
             </AnimatedWrapper>
@@ -274,29 +518,135 @@ const ImageStudio: React.FC<ImageStudioProps> = ({ t }) => {
                 <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
                     <div className="flex justify-between items-center mb-2">
                         <label htmlFor="prompt" className="text-lg font-semibold text-gray-800">{t.describeImage}</label>
-                        <button onClick={handleEnhancePrompt} disabled={!prompt.trim() || isLoading || isEnhancing} className="flex items-center px-3 py-1 text-xs font-semibold rounded-md text-white bg-gradient-to-r from-blue-500 to-cyan-400 hover:from-blue-600 hover:to-cyan-500 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-sm active:scale-95">
-                            {isEnhancing ? <Spinner size="sm" /> : <SparklesIcon className="w-4 h-4" />}
-                            <span className="ml-2">{t.enhance}</span>
-                        </button>
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => setIsLibraryOpen(open => !open)} className={`flex items-center px-3 py-1 text-xs font-semibold rounded-md border shadow-sm transition-colors active:scale-95 ${isLibraryOpen ? 'bg-blue-50 text-blue-700 border-blue-300' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`} aria-pressed={isLibraryOpen}>
+                                <BookmarkIcon className="w-4 h-4" />
+                                <span className="ml-2">{t.promptTemplates}</span>
+                            </button>
+                            <button onClick={() => setIsEnhancerOpen(open => !open)} disabled={!prompt.trim() && !isEnhancerOpen} className="flex items-center px-3 py-1 text-xs font-semibold rounded-md text-white bg-gradient-to-r from-blue-500 to-cyan-400 hover:from-blue-600 hover:to-cyan-500 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-sm active:scale-95" aria-pressed={isEnhancerOpen}>
+                                <SparklesIcon className="w-4 h-4" />
+                                <span className="ml-2">{t.enhance}</span>
+                            </button>
+                        </div>
+                    </div>
+                    <textarea id="prompt" rows={4} className="block w-full sm:text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400 transition" placeholder={t.promptPlaceholder} value={prompt} onChange={(e) => setPrompt(e.target.value)} />
+                    {isEnhancerOpen && <PromptEnhancer target="image" prompt={prompt} onApply={setPrompt} t={t} />}
+                    {isLibraryOpen && <PromptLibrary kind="image" prompt={prompt} onApply={setPrompt} t={t} />}
+                    <div className="flex items-center justify-between mt-4">
+                        <span className="text-sm font-medium text-gray-700">{t.editMode}</span>
+                        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+                            {EDIT_MODES.map(mode => (
+                                <button key={mode} onClick={() => { setEditMode(mode); setError(null); }} disabled={isChatSending} className={`px-3 py-1 text-sm font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${editMode === mode ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:bg-gray-200'}`} aria-pressed={editMode === mode}>
+                                    {mode === 'single' ? t.editModeSingle : t.editModeChat}
+                                </button>
+                            ))}
+                        </div>
                     </div>
-                    <textarea id="prompt" rows={4} className="block w-full sm:text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400 transition" placeholder={t.promptPlaceholder} value={prompt} onChange={(e) => setPrompt(e.target.value)} disabled={isLoading} />
+                    {editMode === 'chat' ? (
+                        <p className="mt-2 text-xs text-gray-500">{t.editModeChatHint}</p>
+                    ) : (
+                        <div className="flex items-center justify-between mt-4">
+                            <span className="text-sm font-medium text-gray-700">{t.numberOfVariations}</span>
+                            <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+                                {Array.from({ length: MAX_VARIATIONS }, (_, i) => i + 1).map(count => (
+                                    <button key={count} onClick={() => setVariationCount(count)} disabled={imageOptions.includeText} className={`w-8 py-1 text-sm font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${variationCount === count ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:bg-gray-200'}`} aria-pressed={variationCount === count}>
+                                        {count}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4">
+                        {getGenerationProvider().models.imageChoices.length > 1 && (
+                            <label className="text-sm font-medium text-gray-700">
+                                <span className="block mb-1">{t.model}</span>
+                                <select value={imageOptions.model} disabled={isChatLocked} onChange={(e) => setImageOptions(prev => ({ ...prev, model: e.target.value }))} className="w-full text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed">
+                                    {getGenerationProvider().models.imageChoices.map(model => <option key={model} value={model}>{model}</option>)}
+                                </select>
+                            </label>
+                        )}
+                        <label className="text-sm font-medium text-gray-700">
+                            <span className="block mb-1">{t.aspectRatio}</span>
+                            <select value={imageOptions.aspectRatio ?? ''} disabled={isChatLocked} onChange={(e) => setImageOptions(prev => ({ ...prev, aspectRatio: (e.target.value || undefined) as ImageAspectRatio | undefined }))} className="w-full text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:opacity-50 disabled:cursor-not-allowed">
+                                <option value="">{t.aspectRatioAuto}</option>
+                                {IMAGE_ASPECT_RATIOS.map(ratio => <option key={ratio} value={ratio}>{ratio}</option>)}
+                            </select>
+                        </label>
+                        <label className="text-sm font-medium text-gray-700">
+                            <span className="block mb-1">{t.outputFormat}</span>
+                            <select value={imageOptions.outputMimeType ?? ''} onChange={(e) => setImageOptions(prev => ({ ...prev, outputMimeType: (e.target.value || undefined) as OutputMimeType | undefined }))} className="w-full text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500">
+                                <option value="">{t.outputFormatOriginal}</option>
+                                {OUTPUT_MIME_TYPES.map(mimeType => <option key={mimeType} value={mimeType}>{mimeType.replace('image/', '').toUpperCase()}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    {openedEntryModel && openedEntryModel !== imageOptions.model && (
+                        <p className="mt-2 text-xs text-amber-700">{t.historyModelDiffers(openedEntryModel)}</p>
+                    )}
+                    {editMode === 'single' && (
+                        <label className="flex items-start gap-2 mt-4 text-sm text-gray-700 cursor-pointer">
+                            <input type="checkbox" checked={!!imageOptions.includeText} onChange={(e) => setImageOptions(prev => ({ ...prev, includeText: e.target.checked || undefined }))} className="mt-0.5 rounded border-gray-300 text-blue-600 focus:ring-blue-500" />
+                            <span>
+                                <span className="font-medium">{t.includeModelText}</span>
+                                <span className="block text-xs text-gray-500">{t.includeModelTextHint}</span>
+                            </span>
+                        </label>
+                    )}
                 </div>
             </AnimatedWrapper>
 
             <div className="sticky bottom-6 z-10">
-                 {error && <AnimatedWrapper><p className="text-red-600 bg-red-100 p-3 rounded-lg text-sm text-center mb-4 border border-red-200">{error}</p></AnimatedWrapper>}
-                <button onClick={handleSubmit} disabled={!prompt.trim() || isLoading} className="w-full flex items-center justify-center px-6 py-4 border border-transparent text-base font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-cyan-500 hover:from-blue-700 hover:to-cyan-600 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-blue-500/50 active:scale-98">
-                    {isLoading ? <><Spinner /><span className="ml-3">{t.generating}...</span></> : 
-                      originalImage ? <><SparklesIcon className="w-5 h-5 mr-2"/>{t.generateEditedImage}</> : <><SparklesIcon className="w-5 h-5 mr-2"/>{t.generateImage}</>
-                    }
+                 <RequestActivityNotice kinds={['image', 'enhance']} t={t} />
+                 <UsageBudgetNotice t={t} />
+                 {error && <AnimatedWrapper><div className="mb-4"><GenerationErrorAlert error={error} onDismiss={() => setError(null)} onRetry={failedJobId ? handleRetryFailedJob : editMode === 'chat' ? handleSendChatMessage : undefined} t={t} /></div></AnimatedWrapper>}
+                <button onClick={editMode === 'chat' ? handleSendChatMessage : handleSubmit} disabled={!prompt.trim() || isChatSending} className="w-full flex items-center justify-center px-6 py-4 border border-transparent text-base font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-cyan-500 hover:from-blue-700 hover:to-cyan-600 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-blue-500/50 active:scale-98">
+                    {editMode === 'chat'
+                        ? <><ChatIcon className="w-5 h-5 mr-2"/>{t.sendMessage}</>
+                        : <><SparklesIcon className="w-5 h-5 mr-2"/>{originalImage ? t.generateEditedImage : t.generateImage}</>}
                 </button>
             </div>
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-1 gap-8">
-            <AnimatedWrapper delay={100}><ImageDisplay title={t.originalImage} imageUrl={originalImage?.base64 || null} text={{ imageWillAppear: t.imageWillAppear, downloadImage: t.downloadImage }} /></AnimatedWrapper>
-            <AnimatedWrapper delay={200}><ImageDisplay title={t.generatedImage} imageUrl={editedImage} isLoading={isLoading} onDownload={() => editedImage && downloadImage(editedImage, 'generated-image.png')} text={{ imageWillAppear: t.imageWillAppear, downloadImage: t.downloadImage }} /></AnimatedWrapper>
+            {editMode === 'chat' ? (
+                <AnimatedWrapper className="sm:col-span-2 lg:col-span-1">
+                    <ImageChatThread turns={chatTurns} isSending={isChatSending} model={chatSessionRef.current?.model} onNewConversation={handleNewConversation} onUseImage={handleUseChatImage} t={t} />
+                </AnimatedWrapper>
+            ) : (
+                <>
+                    <AnimatedWrapper delay={100}><ImageDisplay title={t.originalImage} imageUrl={originalImage?.base64 || null} text={{ imageWillAppear: t.imageWillAppear, downloadImage: t.downloadImage }} /></AnimatedWrapper>
+                    <AnimatedWrapper delay={200}><ImageDisplay title={t.generatedImage} imageUrl={editedImage} isLoading={isLoading} caption={editNodes.find(node => node.id === resultNodeId)?.caption} onDownload={() => editedImage && downloadImage(editedImage, `generated-image.${extensionForDataUrl(editedImage)}`)} onContinueEditing={resultNodeId && !isLoading ? handleContinueEditing : undefined} text={{ imageWillAppear: t.imageWillAppear, downloadImage: t.downloadImage, continueEditing: t.continueEditing }} /></AnimatedWrapper>
+                    {isLoading && pendingJob?.kind === 'image' && pendingJob.stream.length > 0 && (
+                        <AnimatedWrapper className="sm:col-span-2 lg:col-span-1">
+                            <ModelResponseStream parts={pendingJob.stream} isStreaming t={t} />
+                        </AnimatedWrapper>
+                    )}
+                    {variations.length > 1 && (
+                        <AnimatedWrapper className="sm:col-span-2 lg:col-span-1">
+                            <VariationGrid variations={variations} favoriteId={resultNodeId} onPickFavorite={handlePickFavorite} t={t} />
+                        </AnimatedWrapper>
+                    )}
+                </>
+            )}
+            {queueJobs.some(job => job.kind === 'image') && (
+                <AnimatedWrapper className="sm:col-span-2 lg:col-span-1">
+                    <JobQueuePanel kind="image" onOpen={handleOpenQueueJob} focusedJobId={pendingJobId ?? shownJobId} t={t} />
+                </AnimatedWrapper>
+            )}
+            {editNodes.length > 0 && (
+                <AnimatedWrapper delay={300} className="sm:col-span-2 lg:col-span-1">
+                    <EditTreePanel nodes={editNodes} activeNodeId={activeNodeId} onSelect={handleSelectEditNode} t={t} />
+                </AnimatedWrapper>
+            )}
         </div>
+
+        <AnimatedWrapper delay={300} className="lg:col-span-2">
+            <BatchRunner baseImage={originalImage} options={{ ...imageOptions, numberOfImages: variationCount }} maxReferenceImages={MAX_REFERENCE_IMAGES} uploadFormat={uploadFormat} onOpen={handleOpenQueueJob} t={t} />
+        </AnimatedWrapper>
+
+        <AnimatedWrapper delay={300} className="lg:col-span-2">
+            <HistoryGallery kind="image" onOpen={handleOpenHistoryEntry} t={t} />
+        </AnimatedWrapper>
     </main>
   );
 };
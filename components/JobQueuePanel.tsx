@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import translations from '../translations';
+import {
+  canResubmitJob, cancelQueueJob, clearFinishedQueueJobs, getQueueConcurrency, isActiveJob, listQueueJobs, moveQueueJob,
+  removeQueueJob, retryQueueJob, setQueueConcurrency, subscribeToQueue, MAX_ATTEMPTS, MAX_CONCURRENCY,
+} from '../services/jobQueue';
+import type { QueueJob } from '../services/jobQueue';
+import { ChevronDownIcon, ChevronUpIcon, QueueIcon, RetryIcon, TrashIcon, XIcon } from './Icons';
+import Spinner from './Spinner';
+import JobStatusBadge from './JobStatusBadge';
+import { generationErrorMessage } from './GenerationErrorAlert';
+
+interface JobQueuePanelProps {
+  kind: QueueJob['kind'];
+  onOpen: (job: QueueJob) => void;
+  // The job whose result the studio is currently showing or waiting for.
+  focusedJobId?: string | null;
+  t: (typeof translations)['en'];
+}
+
+const JobQueuePanel: React.FC<JobQueuePanelProps> = ({ kind, onOpen, focusedJobId = null, t }) => {
+  const [jobs, setJobs] = useState<QueueJob[]>(listQueueJobs);
+  const [concurrency, setConcurrency] = useState(getQueueConcurrency);
+
+  useEffect(() => subscribeToQueue(() => {
+    setJobs(listQueueJobs());
+    setConcurrency(getQueueConcurrency());
+  }), []);
+
+  const visibleJobs = jobs.filter(job => job.kind === kind);
+  const queuedIds = visibleJobs.filter(job => job.status === 'queued').map(job => job.id);
+  const hasFinished = visibleJobs.some(job => !isActiveJob(job));
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center"><QueueIcon className="w-5 h-5 mr-2" />{t.jobQueue}</h3>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            {t.concurrency}
+            <select value={concurrency} onChange={(e) => setQueueConcurrency(Number(e.target.value))} className="text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500">
+              {Array.from({ length: MAX_CONCURRENCY }, (_, i) => i + 1).map(value => <option key={value} value={value}>{value}</option>)}
+            </select>
+          </label>
+          {hasFinished && (
+            <button onClick={() => clearFinishedQueueJobs(kind)} className="text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors">{t.clearFinished}</button>
+          )}
+        </div>
+      </div>
+      {visibleJobs.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 py-4">{t.queueEmpty}</p>
+      ) : (
+        <ul className="space-y-2">
+          {visibleJobs.map(job => {
+            const queuedIndex = queuedIds.indexOf(job.id);
+            return (
+              <li key={job.id} className={`flex items-start gap-3 p-3 rounded-lg border transition-colors ${job.id === focusedJobId ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}>
+                <div className="min-w-0 flex-grow">
+                  <div className="flex items-center gap-2">
+                    <JobStatusBadge status={job.status} t={t} />
+                    {(job.status === 'running' || job.status === 'retrying') && <Spinner size="sm" />}
+                    {job.attempts > 1 && <span className="text-xs text-gray-500">{t.attemptNOfM(job.attempts, MAX_ATTEMPTS)}</span>}
+                  </div>
+                  <p className="text-sm text-gray-800 mt-1 truncate" title={job.input.prompt}>{job.input.prompt}</p>
+                  {job.error && job.status !== 'canceled' && <p className="text-xs text-red-600 mt-1 break-words" title={job.error.message}>{generationErrorMessage(job.error, t)}</p>}
+                  {(job.status === 'failed' || job.status === 'canceled') && !canResubmitJob(job) && <p className="text-xs text-gray-500 mt-1">{t.startImageNotKept}</p>}
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  {job.status === 'queued' && (
+                    <>
+                      <button onClick={() => moveQueueJob(job.id, -1)} disabled={queuedIndex <= 0} className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent" aria-label={t.moveUp} title={t.moveUp}>
+                        <ChevronUpIcon className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => moveQueueJob(job.id, 1)} disabled={queuedIndex === queuedIds.length - 1} className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent" aria-label={t.moveDown} title={t.moveDown}>
+                        <ChevronDownIcon className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                  {(job.status === 'failed' || job.status === 'canceled') && canResubmitJob(job) && (
+                    <button onClick={() => retryQueueJob(job.id)} className="p-1.5 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-full transition-colors" aria-label={t.retry} title={t.retry}>
+                      <RetryIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                  {job.status === 'succeeded' && (
+                    <button onClick={() => onOpen(job)} className="px-3 py-1 text-sm font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors">{t.openEntry}</button>
+                  )}
+                  {isActiveJob(job) ? (
+                    <button onClick={() => cancelQueueJob(job.id)} className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors" aria-label={t.cancelGeneration} title={job.kind === 'video' ? t.cancelGenerationNote : t.cancelGeneration}>
+                      <XIcon className="w-4 h-4" />
+                    </button>
+                  ) : (
+                    <button onClick={() => removeQueueJob(job.id)} className="p-1.5 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors" aria-label={t.removeFromQueue} title={t.removeFromQueue}>
+                      <TrashIcon className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default JobQueuePanel;
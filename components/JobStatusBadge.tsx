@@ -0,0 +1,31 @@
+import React from 'react';
+import translations from '../translations';
+import type { QueueJobStatus } from '../services/jobQueue';
+
+interface JobStatusBadgeProps {
+  status: QueueJobStatus;
+  t: (typeof translations)['en'];
+}
+
+const STATUS_STYLES: Record<QueueJobStatus, string> = {
+  queued: 'bg-gray-100 text-gray-600',
+  running: 'bg-blue-100 text-blue-700',
+  retrying: 'bg-amber-100 text-amber-700',
+  succeeded: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  canceled: 'bg-gray-100 text-gray-400',
+};
+
+const JobStatusBadge: React.FC<JobStatusBadgeProps> = ({ status, t }) => {
+  const labels: Record<QueueJobStatus, string> = {
+    queued: t.jobQueued,
+    running: t.jobRunning,
+    retrying: t.jobRetrying,
+    succeeded: t.jobSucceeded,
+    failed: t.jobFailed,
+    canceled: t.jobCanceled,
+  };
+  return <span className={`text-xs font-medium px-2 py-0.5 rounded-full whitespace-nowrap ${STATUS_STYLES[status]}`}>{labels[status]}</span>;
+};
+
+export default JobStatusBadge;
@@ -1,7 +1,33 @@
-import React, { useRef, useEffect, useState, MouseEvent } from 'react';
+import React, { useRef, useEffect, useState, PointerEvent } from 'react';
 import type { ImageFile } from '../App';
 import translations from '../translations';
-import { MaskIcon, TrashIcon, XIcon } from './Icons';
+import { MaskIcon, TrashIcon, XIcon, UndoIcon, RedoIcon, DownloadIcon } from './Icons';
+import { dataURLtoFile } from '../utils/imageFile';
+import { createMaskBuffer, loadImageElement, drawMaskImageIntoBuffer, exportMaskDataUrl } from '../utils/mask';
+import { emptyMaskHistory, pushMaskCommand, applyMaskCommand, drawStrokeSegment, traceMaskShape, getMaskSession, saveMaskSession } from '../utils/maskHistory';
+import type { MaskCommand, MaskHistory, MaskPoint, MaskShapeCommand } from '../utils/maskHistory';
+
+interface ViewTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+type MaskTool = 'brush' | 'rectangle' | 'ellipse' | 'lasso' | 'wand';
+
+const IDENTITY_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 };
+const MAX_ZOOM = 8;
+// A pen at the lightest touch still paints at this fraction of the brush size.
+const MIN_PRESSURE_SCALE = 0.2;
+
+const NON_TEXT_INPUT_TYPES = new Set(['button', 'checkbox', 'color', 'radio', 'range', 'reset', 'submit']);
+
+// Fields where Ctrl/Cmd+Z should undo typing rather than the mask. Sliders and
+// checkboxes keep focus after use, so they do not count.
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (target instanceof HTMLInputElement) return !NON_TEXT_INPUT_TYPES.has(target.type);
+  return target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable);
+};
 
 interface MaskingEditorProps {
   isOpen: boolean;
@@ -12,250 +38,435 @@ interface MaskingEditorProps {
   t: (typeof translations)['en'];
 }
 
-const dataURLtoFile = (dataurl: string, filename: string): File => {
-    const arr = dataurl.split(',');
-    const mimeMatch = arr[0].match(/:(.*?);/);
-    if (!mimeMatch) {
-        throw new Error('Invalid data URL');
-    }
-    const mime = mimeMatch[1];
-    const bstr = atob(arr[1]);
-    let n = bstr.length;
-    const u8arr = new Uint8Array(n);
-    while (n--) {
-        u8arr[n] = bstr.charCodeAt(n);
-    }
-    return new File([u8arr], filename, { type: mime });
-};
-
 const MaskingEditor: React.FC<MaskingEditorProps> = ({ isOpen, onClose, onSave, imageUrl, initialMask, t }) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const imageCanvasRef = useRef<HTMLCanvasElement>(null);
   const drawingCanvasRef = useRef<HTMLCanvasElement>(null);
+  // The source image and the offscreen mask buffer at the image's native resolution.
+  // The on-screen canvases are only a scaled view of these.
+  const imageRef = useRef<HTMLImageElement | null>(null);
+  const maskBufferRef = useRef<HTMLCanvasElement | null>(null);
+  // The mask the current session started from; undo replays commands on top of it.
+  const baselineRef = useRef<HTMLImageElement | null>(null);
+  const baselineUrlRef = useRef<string | null>(null);
   const isDrawing = useRef(false);
-  const lastPos = useRef<{ x: number; y: number } | null>(null);
+  const lastPos = useRef<MaskPoint | null>(null);
+  const currentStroke = useRef<MaskPoint[]>([]);
+  // Shape being dragged out with the rectangle, ellipse or lasso tool.
+  const shapeOrigin = useRef<MaskPoint | null>(null);
+  const draftShape = useRef<MaskShapeCommand | null>(null);
+  // Base image pixels for the magic wand, read on first use.
+  const sourceDataRef = useRef<ImageData | null>(null);
+  // Pointers currently down on the canvas, in client coordinates. Two or more touches
+  // turn into a pinch/pan gesture and are never painted.
+  const activePointers = useRef<Map<number, { x: number; y: number }>>(new Map());
+  const drawingPointerId = useRef<number | null>(null);
+  const gestureStart = useRef<{ distance: number; midX: number; midY: number; view: ViewTransform } | null>(null);
 
   const [brushSize, setBrushSize] = useState(40);
   const [isErasing, setIsErasing] = useState(false);
+  const [tool, setTool] = useState<MaskTool>('brush');
+  const [tolerance, setTolerance] = useState(20);
+  const [hardness, setHardness] = useState(100);
+  const [feather, setFeather] = useState(0);
+  const [morphRadius, setMorphRadius] = useState(4);
+  const [softExport, setSoftExport] = useState(false);
+  const featherRef = useRef(feather);
+  featherRef.current = feather;
+  const [history, setHistory] = useState<MaskHistory>(emptyMaskHistory);
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW);
+  const historyRef = useRef(history);
+  historyRef.current = history;
+
+  const renderOverlay = () => {
+    const canvas = drawingCanvasRef.current;
+    const buffer = maskBufferRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !buffer || !ctx) return;
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.globalAlpha = 0.5;
+    // Preview the feather cheaply with a canvas filter; the saved mask is blurred exactly.
+    const previewBlur = featherRef.current * (canvas.width / buffer.width);
+    ctx.filter = previewBlur > 0 ? `blur(${previewBlur}px)` : 'none';
+    ctx.drawImage(buffer, 0, 0, canvas.width, canvas.height);
+    ctx.filter = 'none';
+    ctx.globalAlpha = 1;
+  };
 
-  const resizeCanvases = () => {
-    if (!containerRef.current || !imageCanvasRef.current || !drawingCanvasRef.current) return;
+  useEffect(() => { renderOverlay(); }, [feather]);
 
+  // Only the display canvases follow the container size; the mask buffer is untouched.
+  const resizeCanvases = () => {
     const container = containerRef.current;
-    const img = new Image();
-    img.src = imageUrl;
-    img.onload = () => {
-        const containerWidth = container.clientWidth;
-        const containerHeight = container.clientHeight;
-        const containerRatio = containerWidth / containerHeight;
-        const imgRatio = img.width / img.height;
-        
-        let canvasWidth, canvasHeight;
-        if (imgRatio > containerRatio) {
-            canvasWidth = containerWidth;
-            canvasHeight = containerWidth / imgRatio;
-        } else {
-            canvasHeight = containerHeight;
-            canvasWidth = containerHeight * imgRatio;
-        }
-        
-        [imageCanvasRef.current, drawingCanvasRef.current].forEach(canvas => {
-            if (canvas) {
-                canvas.width = canvasWidth;
-                canvas.height = canvasHeight;
-            }
-        });
-        
-        const imageCtx = imageCanvasRef.current?.getContext('2d');
-        if (imageCtx) {
-            imageCtx.drawImage(img, 0, 0, canvasWidth, canvasHeight);
-        }
+    const img = imageRef.current;
+    if (!container || !img || !imageCanvasRef.current || !drawingCanvasRef.current) return;
+
+    const containerWidth = container.clientWidth;
+    const containerHeight = container.clientHeight;
+    const containerRatio = containerWidth / containerHeight;
+    const imgRatio = img.naturalWidth / img.naturalHeight;
+
+    let canvasWidth, canvasHeight;
+    if (imgRatio > containerRatio) {
+        canvasWidth = containerWidth;
+        canvasHeight = containerWidth / imgRatio;
+    } else {
+        canvasHeight = containerHeight;
+        canvasWidth = containerHeight * imgRatio;
+    }
 
-        const drawingCtx = drawingCanvasRef.current?.getContext('2d');
-        if (drawingCtx && initialMask) {
-            const maskImg = new Image();
-            maskImg.src = initialMask;
-            maskImg.onload = () => {
-                drawingCtx.globalCompositeOperation = 'source-over';
-                drawingCtx.globalAlpha = 0.5;
-                drawingCtx.fillStyle = 'red';
-
-                const tempCanvas = document.createElement('canvas');
-                tempCanvas.width = canvasWidth;
-                tempCanvas.height = canvasHeight;
-                const tempCtx = tempCanvas.getContext('2d');
-                if(!tempCtx) return;
-                tempCtx.drawImage(maskImg, 0, 0, canvasWidth, canvasHeight);
-                tempCtx.globalCompositeOperation = 'source-in';
-                tempCtx.fillStyle = 'red';
-                tempCtx.fillRect(0, 0, canvasWidth, canvasHeight);
-                drawingCtx.drawImage(tempCanvas, 0, 0);
-            };
-        }
+    [imageCanvasRef.current, drawingCanvasRef.current].forEach(canvas => {
+        canvas.width = canvasWidth;
+        canvas.height = canvasHeight;
+    });
+
+    const imageCtx = imageCanvasRef.current.getContext('2d');
+    if (imageCtx) {
+        imageCtx.drawImage(img, 0, 0, canvasWidth, canvasHeight);
     }
+    renderOverlay();
   };
 
   useEffect(() => {
-    if (isOpen) {
-        resizeCanvases();
-        window.addEventListener('resize', resizeCanvases);
-    }
+    if (!isOpen) return;
+    let isActive = true;
+
+    const setup = async () => {
+        try {
+            const img = await loadImageElement(imageUrl);
+            const session = getMaskSession(imageUrl, initialMask);
+            const baselineUrl = session ? session.baseline : initialMask;
+            const baseline = baselineUrl ? await loadImageElement(baselineUrl) : null;
+            if (!isActive) return;
+            imageRef.current = img;
+            sourceDataRef.current = null;
+            maskBufferRef.current = createMaskBuffer(img.naturalWidth, img.naturalHeight);
+            baselineRef.current = baseline;
+            baselineUrlRef.current = baselineUrl;
+            const restored = session ? session.history : emptyMaskHistory;
+            setHistory(restored);
+            replay(restored);
+            resizeCanvases();
+        } catch (err) {
+            console.error("Error preparing the masking editor:", err);
+        }
+    };
+    setup();
+
+    window.addEventListener('resize', resizeCanvases);
     return () => {
+        isActive = false;
         window.removeEventListener('resize', resizeCanvases);
     };
   }, [isOpen, imageUrl, initialMask]);
 
-  const getMousePos = (e: MouseEvent) => {
+  const getSourceData = (): ImageData | null => {
+    const img = imageRef.current;
+    if (!sourceDataRef.current && img) {
+        const canvas = createMaskBuffer(img.naturalWidth, img.naturalHeight);
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return null;
+        ctx.drawImage(img, 0, 0);
+        sourceDataRef.current = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    }
+    return sourceDataRef.current;
+  };
+
+  // Rebuilds the mask buffer from the baseline and the applied commands.
+  const replay = (state: MaskHistory) => {
+    const buffer = maskBufferRef.current;
+    const ctx = buffer?.getContext('2d');
+    if (!buffer || !ctx) return;
+    ctx.clearRect(0, 0, buffer.width, buffer.height);
+    if (baselineRef.current) {
+        drawMaskImageIntoBuffer(buffer, baselineRef.current);
+    }
+    state.commands.slice(0, state.cursor).forEach(command => applyMaskCommand(buffer, command, getSourceData));
+    renderOverlay();
+  };
+
+  const updateHistory = (next: MaskHistory, expectedInitialMask: string | null = initialMask) => {
+    setHistory(next);
+    saveMaskSession(imageUrl, { baseline: baselineUrlRef.current, expectedInitialMask, history: next });
+  };
+
+  const recordCommand = (command: MaskCommand) => {
+    updateHistory(pushMaskCommand(historyRef.current, command));
+  };
+
+  const undo = () => {
+    const current = historyRef.current;
+    if (isDrawing.current || current.cursor === 0) return;
+    const next = { ...current, cursor: current.cursor - 1 };
+    updateHistory(next);
+    replay(next);
+  };
+
+  const redo = () => {
+    const current = historyRef.current;
+    if (isDrawing.current || current.cursor >= current.commands.length) return;
+    const next = { ...current, cursor: current.cursor + 1 };
+    updateHistory(next);
+    replay(next);
+  };
+
+  // The latest undo and redo, so the key listener is added once per opening.
+  const undoRedoRef = useRef({ undo, redo });
+  undoRedoRef.current = { undo, redo };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || isEditableTarget(e.target)) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z') {
+            e.preventDefault();
+            if (e.shiftKey) { undoRedoRef.current.redo(); } else { undoRedoRef.current.undo(); }
+        } else if (key === 'y') {
+            e.preventDefault();
+            undoRedoRef.current.redo();
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen]);
+
+  // Converts a pointer position on the display canvas to mask buffer coordinates.
+  // The bounding rect already reflects the zoom/pan transform.
+  const getMousePos = (e: PointerEvent) => {
     const rect = drawingCanvasRef.current?.getBoundingClientRect();
-    if (!rect) return { x: 0, y: 0 };
+    const buffer = maskBufferRef.current;
+    if (!rect || !buffer || rect.width === 0 || rect.height === 0) return { x: 0, y: 0 };
     return {
-      x: e.clientX - rect.left,
-      y: e.clientY - rect.top,
+      x: (e.clientX - rect.left) * (buffer.width / rect.width),
+      y: (e.clientY - rect.top) * (buffer.height / rect.height),
     };
   };
 
-  const drawLine = (x1: number, y1: number, x2: number, y2: number) => {
-    const ctx = drawingCanvasRef.current?.getContext('2d');
+  // The brush size slider is in screen pixels; keep its apparent size on the buffer.
+  const getBufferBrushSize = () => {
+    const buffer = maskBufferRef.current;
+    const canvas = drawingCanvasRef.current;
+    if (!buffer || !canvas || canvas.width === 0) return brushSize;
+    return brushSize * (buffer.width / canvas.width);
+  };
+
+  // Only pens report meaningful pressure; mice and most touchscreens report constants.
+  const getPointerPos = (e: PointerEvent): MaskPoint => {
+    const pos = getMousePos(e);
+    if (e.pointerType !== 'pen' || e.pressure <= 0) return pos;
+    return { ...pos, size: getBufferBrushSize() * (MIN_PRESSURE_SCALE + (1 - MIN_PRESSURE_SCALE) * e.pressure) };
+  };
+
+  const drawLine = (from: MaskPoint, to: MaskPoint) => {
+    const ctx = maskBufferRef.current?.getContext('2d');
     if (!ctx) return;
-    
-    ctx.strokeStyle = 'red';
-    ctx.lineWidth = brushSize;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    ctx.globalAlpha = 0.5;
-    ctx.globalCompositeOperation = isErasing ? 'destination-out' : 'source-over';
+    drawStrokeSegment(ctx, isErasing, to.size ?? getBufferBrushSize(), from, to, hardness);
+    renderOverlay();
+  };
 
-    ctx.beginPath();
-    ctx.moveTo(x1, y1);
-    ctx.lineTo(x2, y2);
+  // Outlines the shape being dragged on top of the mask overlay.
+  const renderDraftShape = () => {
+    renderOverlay();
+    const canvas = drawingCanvasRef.current;
+    const buffer = maskBufferRef.current;
+    const ctx = canvas?.getContext('2d');
+    const draft = draftShape.current;
+    if (!canvas || !buffer || !ctx || !draft) return;
+    traceMaskShape(ctx, draft, canvas.width / buffer.width);
+    ctx.fillStyle = draft.erase ? 'rgba(255, 255, 255, 0.25)' : 'rgba(255, 0, 0, 0.25)';
+    ctx.fill();
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = 'white';
+    ctx.lineWidth = 1.5;
     ctx.stroke();
+    ctx.setLineDash([]);
+  };
+
+  const updateBoxDraft = (type: 'rectangle' | 'ellipse', pos: MaskPoint) => {
+    const origin = shapeOrigin.current;
+    if (!origin) return;
+    draftShape.current = {
+        type,
+        erase: isErasing,
+        x: Math.min(origin.x, pos.x),
+        y: Math.min(origin.y, pos.y),
+        width: Math.abs(pos.x - origin.x),
+        height: Math.abs(pos.y - origin.y),
+    };
   };
 
-  const startDrawing = (e: MouseEvent) => {
+  const startDrawing = (e: PointerEvent) => {
+    const pos = getPointerPos(e);
     isDrawing.current = true;
-    const pos = getMousePos(e);
-    lastPos.current = pos;
-    // Draw a dot on single click
-    drawLine(pos.x, pos.y, pos.x, pos.y);
+    drawingPointerId.current = e.pointerId;
+    if (tool === 'wand') {
+        // Filled on release, so a second finger landing for a pinch cancels it.
+        shapeOrigin.current = pos;
+    } else if (tool === 'brush') {
+        lastPos.current = pos;
+        currentStroke.current = [pos];
+        // Draw a dot on single click
+        drawLine(pos, pos);
+    } else if (tool === 'lasso') {
+        draftShape.current = { type: 'lasso', erase: isErasing, points: [{ x: pos.x, y: pos.y }] };
+        renderDraftShape();
+    } else {
+        shapeOrigin.current = pos;
+        updateBoxDraft(tool, pos);
+        renderDraftShape();
+    }
   };
   
-  const draw = (e: MouseEvent) => {
-    if (!isDrawing.current) return;
-    const pos = getMousePos(e);
-    if (lastPos.current) {
-        drawLine(lastPos.current.x, lastPos.current.y, pos.x, pos.y);
+  const draw = (e: PointerEvent) => {
+    if (!isDrawing.current || tool === 'wand') return;
+    const pos = getPointerPos(e);
+    if (tool === 'brush') {
+        if (lastPos.current) {
+            drawLine(lastPos.current, pos);
+        }
+        lastPos.current = pos;
+        currentStroke.current.push(pos);
+        return;
+    }
+    const draft = draftShape.current;
+    if (draft?.type === 'lasso') {
+        draft.points.push({ x: pos.x, y: pos.y });
+    } else if (tool === 'rectangle' || tool === 'ellipse') {
+        updateBoxDraft(tool, pos);
     }
-    lastPos.current = pos;
+    renderDraftShape();
   };
-  
-  const stopDrawing = () => {
+
+  const resetDrawingState = () => {
     isDrawing.current = false;
+    drawingPointerId.current = null;
     lastPos.current = null;
+    currentStroke.current = [];
+    shapeOrigin.current = null;
+    draftShape.current = null;
   };
-
-  const clearMask = () => {
-    const canvas = drawingCanvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (ctx && canvas) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
+  
+  const stopDrawing = () => {
+    if (isDrawing.current) {
+        const draft = draftShape.current;
+        if (tool === 'wand' && shapeOrigin.current) {
+            const { x, y } = shapeOrigin.current;
+            applyAndRecord({ type: 'fill', erase: isErasing, x, y, tolerance });
+        } else if (tool === 'brush' && currentStroke.current.length > 0) {
+            recordCommand({ type: 'stroke', erase: isErasing, size: getBufferBrushSize(), hardness, points: currentStroke.current });
+        } else if (draft) {
+            const hasArea = draft.type === 'lasso' ? draft.points.length > 2 : draft.width >= 1 && draft.height >= 1;
+            draftShape.current = null;
+            if (hasArea) { applyAndRecord(draft); } else { renderOverlay(); }
+        }
     }
+    resetDrawingState();
   };
 
-  const invertMask = () => {
-    const canvas = drawingCanvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!ctx || !canvas) return;
+  // Drops a stroke or shape in progress without recording it, e.g. when a second finger lands.
+  const cancelDrawing = () => {
+    if (!isDrawing.current) return;
+    resetDrawingState();
+    replay(historyRef.current);
+  };
 
-    // Create a temporary canvas with the current mask
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = canvas.width;
-    tempCanvas.height = canvas.height;
-    const tempCtx = tempCanvas.getContext('2d');
-    if(!tempCtx) return;
-    tempCtx.drawImage(canvas, 0, 0);
+  const getGesturePoints = () => {
+    const points: { x: number; y: number }[] = [];
+    activePointers.current.forEach(point => points.push(point));
+    const [a, b] = points;
+    return {
+      distance: Math.hypot(b.x - a.x, b.y - a.y) || 1,
+      midX: (a.x + b.x) / 2,
+      midY: (a.y + b.y) / 2,
+    };
+  };
 
-    // Clear the main canvas
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+  const handlePointerDown = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activePointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
 
-    // Fill with semi-transparent red
-    ctx.globalCompositeOperation = 'source-over';
-    ctx.globalAlpha = 0.5;
-    ctx.fillStyle = 'red';
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    
-    // Punch out the original mask shape
-    ctx.globalCompositeOperation = 'destination-out';
-    ctx.drawImage(tempCanvas, 0, 0);
+    if (activePointers.current.size >= 2) {
+        cancelDrawing();
+        gestureStart.current = { ...getGesturePoints(), view };
+        return;
+    }
+    // Wait for every finger of a gesture to lift before painting again.
+    if (gestureStart.current) return;
+    startDrawing(e);
   };
 
-  const handleSave = () => {
-    const drawingCanvas = drawingCanvasRef.current;
-    if (!drawingCanvas) return;
+  const handlePointerMove = (e: PointerEvent<HTMLCanvasElement>) => {
+    if (!activePointers.current.has(e.pointerId)) return;
+    activePointers.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+
+    const start = gestureStart.current;
+    if (start) {
+        if (activePointers.current.size < 2) return;
+        const { distance, midX, midY } = getGesturePoints();
+        setView({
+            scale: Math.min(MAX_ZOOM, Math.max(1, start.view.scale * distance / start.distance)),
+            x: start.view.x + midX - start.midX,
+            y: start.view.y + midY - start.midY,
+        });
+        return;
+    }
+    if (drawingPointerId.current === e.pointerId) {
+        draw(e);
+    }
+  };
 
-    const tempCanvas = document.createElement('canvas');
-    tempCanvas.width = drawingCanvas.width;
-    tempCanvas.height = drawingCanvas.height;
-    const ctx = tempCanvas.getContext('2d');
-    if (!ctx) return;
-    
-    // Fill with black
-    ctx.fillStyle = 'black';
-    ctx.fillRect(0, 0, tempCanvas.width, tempCanvas.height);
-    
-    // Get image data from the drawing canvas
-    const drawingCtx = drawingCanvas.getContext('2d');
-    if (!drawingCtx) return;
-    const imageData = drawingCtx.getImageData(0, 0, drawingCanvas.width, drawingCanvas.height);
-    const data = imageData.data;
-
-    // Create a white silhouette on a new canvas where the mask was drawn
-    const silhouetteCanvas = document.createElement('canvas');
-    silhouetteCanvas.width = drawingCanvas.width;
-    silhouetteCanvas.height = drawingCanvas.height;
-    const silhouetteCtx = silhouetteCanvas.getContext('2d');
-    if (!silhouetteCtx) return;
-
-    // Iterate through pixels, if alpha > 0 (drawn on), make pixel white
-    for (let i = 0; i < data.length; i += 4) {
-        if (data[i + 3] > 0) {
-            data[i] = 255;
-            data[i + 1] = 255;
-            data[i + 2] = 255;
-            data[i + 3] = 255;
-        }
+  const handlePointerUp = (e: PointerEvent<HTMLCanvasElement>) => {
+    activePointers.current.delete(e.pointerId);
+    if (drawingPointerId.current === e.pointerId) {
+        stopDrawing();
     }
-    silhouetteCtx.putImageData(imageData, 0, 0);
-
-    // Punch the white silhouette into the black background
-    ctx.globalCompositeOperation = 'source-over'; // Actually should be destination-out logic
-    ctx.drawImage(silhouetteCanvas, 0, 0);
-
-
-    // Create final black and white mask
-    const finalCanvas = document.createElement('canvas');
-    finalCanvas.width = drawingCanvas.width;
-    finalCanvas.height = drawingCanvas.height;
-    const finalCtx = finalCanvas.getContext('2d');
-    if(!finalCtx) return;
-
-    finalCtx.fillStyle = 'black';
-    finalCtx.fillRect(0, 0, finalCanvas.width, finalCanvas.height);
-    finalCtx.globalCompositeOperation = 'source-over';
-
-    const finalImageData = finalCtx.getImageData(0,0, finalCanvas.width, finalCanvas.height);
-    const finalData = finalImageData.data;
-    const sourceData = silhouetteCtx.getImageData(0,0, silhouetteCanvas.width, silhouetteCanvas.height).data;
-    for(let i=0; i<finalData.length; i += 4) {
-        if(sourceData[i+3] > 0) { // If pixel on silhouette is not transparent
-            finalData[i] = 255;
-            finalData[i+1] = 255;
-            finalData[i+2] = 255;
-        }
+    if (activePointers.current.size === 0) {
+        gestureStart.current = null;
     }
-    finalCtx.putImageData(finalImageData, 0, 0);
-    
-    const base64 = finalCanvas.toDataURL('image/png');
+  };
+
+  const applyAndRecord = (command: MaskCommand) => {
+    const buffer = maskBufferRef.current;
+    if (!buffer) return;
+    applyMaskCommand(buffer, command, getSourceData);
+    renderOverlay();
+    recordCommand(command);
+  };
+
+  const clearMask = () => applyAndRecord({ type: 'clear' });
+
+  const invertMask = () => applyAndRecord({ type: 'invert' });
+
+  const growMask = () => applyAndRecord({ type: 'morph', radius: morphRadius });
+
+  const shrinkMask = () => applyAndRecord({ type: 'morph', radius: -morphRadius });
+
+  const handleDownload = () => {
+    const buffer = maskBufferRef.current;
+    if (!buffer) return;
+    const base64 = exportMaskDataUrl(buffer, { feather, grayscale: softExport });
+    if (!base64) return;
+    const link = document.createElement('a');
+    link.href = base64;
+    link.download = 'mask.png';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // The saved mask has exactly the base image's pixel dimensions.
+  const handleSave = () => {
+    const buffer = maskBufferRef.current;
+    if (!buffer) return;
+    const base64 = exportMaskDataUrl(buffer, { feather, grayscale: softExport });
+    if (!base64) return;
     const file = dataURLtoFile(base64, 'mask.png');
+    // The studio will hand this mask back on reopen; keep the history attached to it.
+    updateHistory(historyRef.current, base64);
     onSave({ file, base64 });
   };
 
@@ -263,32 +474,91 @@ const MaskingEditor: React.FC<MaskingEditorProps> = ({ isOpen, onClose, onSave,
   if (!isOpen) return null;
 
   return (
-    <div className="fixed inset-0 bg-gray-900 bg-opacity-80 z-50 flex flex-col items-center justify-center p-4" onMouseUp={stopDrawing} onMouseLeave={stopDrawing}>
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-80 z-50 flex flex-col items-center justify-center p-4">
         <div className="absolute top-4 right-4">
             <button onClick={onClose} className="p-2 bg-white/20 rounded-full text-white hover:bg-white/40 transition-colors">
                 <XIcon className="w-6 h-6" />
             </button>
         </div>
-        <div ref={containerRef} className="relative w-full h-full flex items-center justify-center max-w-7xl max-h-[85vh]">
-            <canvas ref={imageCanvasRef} className="absolute"></canvas>
-            <canvas ref={drawingCanvasRef} className="absolute cursor-crosshair" onMouseDown={startDrawing} onMouseMove={draw}></canvas>
+        <div ref={containerRef} className="relative w-full h-full flex items-center justify-center max-w-7xl max-h-[85vh] overflow-hidden">
+            <div className="absolute inset-0 flex items-center justify-center" style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}>
+                <canvas ref={imageCanvasRef} className="absolute"></canvas>
+                <canvas
+                    ref={drawingCanvasRef}
+                    className="absolute cursor-crosshair touch-none"
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={handlePointerUp}
+                    onPointerCancel={handlePointerUp}
+                ></canvas>
+            </div>
+            {view !== IDENTITY_VIEW && (
+                <button onClick={() => setView(IDENTITY_VIEW)} className="absolute top-2 left-2 px-3 py-1.5 text-xs rounded-md bg-gray-800/80 text-white hover:bg-gray-700 transition-colors">{t.resetView}</button>
+            )}
         </div>
         
-        <div className="absolute bottom-4 bg-gray-800 text-white p-4 rounded-xl shadow-2xl flex flex-col sm:flex-row items-center gap-4 sm:gap-6 animate-fade-in-up">
-            <div className="flex items-center gap-3">
-                <label htmlFor="brushSize" className="text-sm font-medium whitespace-nowrap">{t.brushSize}:</label>
-                <input id="brushSize" type="range" min="5" max="150" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-32 cursor-pointer" />
+        <div className="absolute bottom-4 max-w-[95vw] bg-gray-800 text-white p-4 rounded-xl shadow-2xl flex flex-col sm:flex-row sm:flex-wrap justify-center items-center gap-4 sm:gap-6 animate-fade-in-up">
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                {([
+                    ['brush', t.brush],
+                    ['rectangle', t.rectangleTool],
+                    ['ellipse', t.ellipseTool],
+                    ['lasso', t.lassoTool],
+                    ['wand', t.magicWandTool],
+                ] as [MaskTool, string][]).map(([value, label]) => (
+                    <button key={value} onClick={() => setTool(value)} className={`px-3 py-2 text-sm rounded-md transition-colors ${tool === value ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`} aria-pressed={tool === value}>{label}</button>
+                ))}
             </div>
 
             <div className="bg-gray-700 h-8 w-px hidden sm:block"></div>
 
+            {tool === 'brush' && (
+                <div className="flex items-center gap-3">
+                    <label htmlFor="brushSize" className="text-sm font-medium whitespace-nowrap">{t.brushSize}:</label>
+                    <input id="brushSize" type="range" min="5" max="150" value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="w-32 cursor-pointer" />
+                    <label htmlFor="hardness" className="text-sm font-medium whitespace-nowrap">{t.hardness}:</label>
+                    <input id="hardness" type="range" min="0" max="100" value={hardness} onChange={(e) => setHardness(Number(e.target.value))} className="w-24 cursor-pointer" />
+                </div>
+            )}
+            {tool === 'wand' && (
+                <div className="flex items-center gap-3">
+                    <label htmlFor="tolerance" className="text-sm font-medium whitespace-nowrap">{t.tolerance}:</label>
+                    <input id="tolerance" type="range" min="0" max="100" value={tolerance} onChange={(e) => setTolerance(Number(e.target.value))} className="w-32 cursor-pointer" />
+                </div>
+            )}
+
             <div className="flex items-center gap-2">
-                <button onClick={() => setIsErasing(false)} className={`px-4 py-2 text-sm rounded-md transition-colors ${!isErasing ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`}>{t.brush}</button>
-                <button onClick={() => setIsErasing(true)} className={`px-4 py-2 text-sm rounded-md transition-colors ${isErasing ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`}>{t.eraser}</button>
+                <button onClick={() => setIsErasing(false)} className={`px-4 py-2 text-sm rounded-md transition-colors ${!isErasing ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`} aria-pressed={!isErasing}>{t.addToMask}</button>
+                <button onClick={() => setIsErasing(true)} className={`px-4 py-2 text-sm rounded-md transition-colors ${isErasing ? 'bg-blue-600 text-white' : 'bg-gray-600 hover:bg-gray-500'}`} aria-pressed={isErasing}>{t.subtractFromMask}</button>
             </div>
             
             <div className="bg-gray-700 h-8 w-px hidden sm:block"></div>
 
+            <div className="flex items-center gap-2">
+                <button onClick={undo} disabled={history.cursor === 0} className="p-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed" aria-label={t.undo} title={`${t.undo} (Ctrl+Z)`}>
+                    <UndoIcon className="w-4 h-4" />
+                </button>
+                <button onClick={redo} disabled={history.cursor >= history.commands.length} className="p-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors disabled:opacity-40 disabled:cursor-not-allowed" aria-label={t.redo} title={`${t.redo} (Ctrl+Shift+Z)`}>
+                    <RedoIcon className="w-4 h-4" />
+                </button>
+            </div>
+
+            <div className="bg-gray-700 h-8 w-px hidden sm:block"></div>
+
+            <div className="flex items-center gap-3">
+                <label htmlFor="feather" className="text-sm font-medium whitespace-nowrap">{t.feather}:</label>
+                <input id="feather" type="range" min="0" max="50" value={feather} onChange={(e) => setFeather(Number(e.target.value))} className="w-24 cursor-pointer" />
+                <span className="text-xs text-gray-300 w-10">{feather}px</span>
+            </div>
+
+            <div className="flex items-center gap-2">
+                <input type="number" min="1" max="100" value={morphRadius} onChange={(e) => setMorphRadius(Math.max(1, Math.min(100, Number(e.target.value) || 1)))} className="w-16 px-2 py-1.5 text-sm rounded-md bg-gray-700 border border-gray-600 text-white" aria-label={t.growShrinkAmount} title={t.growShrinkAmount} />
+                <button onClick={growMask} className="px-3 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors">{t.growMask}</button>
+                <button onClick={shrinkMask} className="px-3 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors">{t.shrinkMask}</button>
+            </div>
+
+            <div className="bg-gray-700 h-8 w-px hidden sm:block"></div>
+
             <div className="flex items-center gap-2">
                 <button onClick={invertMask} className="px-4 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors">{t.invertMask}</button>
                 <button onClick={clearMask} className="px-4 py-2 text-sm rounded-md bg-gray-600 hover:bg-gray-500 transition-colors flex items-center gap-2">
@@ -296,6 +566,15 @@ const MaskingEditor: React.FC<MaskingEditorProps> = ({ isOpen, onClose, onSave,
                 </button>
             </div>
             
+            <label className="flex items-center gap-2 text-sm whitespace-nowrap cursor-pointer">
+                <input type="checkbox" checked={softExport} onChange={(e) => setSoftExport(e.target.checked)} />
+                {t.grayscaleMask}
+            </label>
+
+            <button onClick={handleDownload} className="p-2 rounded-md bg-gray-600 hover:bg-gray-500 transition-colors" aria-label={t.downloadMask} title={t.downloadMask}>
+                <DownloadIcon className="w-4 h-4" />
+            </button>
+
             <button onClick={handleSave} className="w-full sm:w-auto px-6 py-2 text-sm font-semibold rounded-md bg-green-600 hover:bg-green-700 transition-colors flex items-center justify-center gap-2">
                 <MaskIcon className="w-4 h-4" /> {t.saveMask}
             </button>
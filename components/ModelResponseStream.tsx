@@ -0,0 +1,29 @@
+import React from 'react';
+import translations from '../translations';
+import type { ImageStreamPart } from '../services/generationProvider';
+import Spinner from './Spinner';
+
+interface ModelResponseStreamProps {
+  parts: ImageStreamPart[];
+  isStreaming: boolean;
+  t: (typeof translations)['en'];
+}
+
+// The model's text and images in the order they arrive.
+const ModelResponseStream: React.FC<ModelResponseStreamProps> = ({ parts, isStreaming, t }) => (
+  <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
+    <div className="flex items-center gap-2 mb-3">
+      <h3 className="text-lg font-semibold text-gray-800">{t.modelResponse}</h3>
+      {isStreaming && <Spinner size="sm" />}
+    </div>
+    <div className="space-y-3" aria-live="polite">
+      {parts.map((part, index) => part.type === 'text' ? (
+        <p key={index} className="text-sm text-gray-700 whitespace-pre-wrap break-words">{part.text}</p>
+      ) : (
+        <img key={index} src={`data:${part.image.mimeType};base64,${part.image.base64Data}`} alt={t.generatedImage} className="max-h-48 rounded-lg border border-gray-200 animate-fade-in-up" />
+      ))}
+    </div>
+  </div>
+);
+
+export default ModelResponseStream;
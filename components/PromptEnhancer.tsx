@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useRef } from 'react';
+import translations from '../translations';
+import { enhancePrompt } from '../services/generationProvider';
+import type { EnhancementStyle } from '../services/generationProvider';
+import { toGenerationError } from '../services/generationError';
+import type { GenerationError } from '../services/generationError';
+import { isAbortError } from '../utils/abort';
+import { diffWords } from '../utils/wordDiff';
+import { ArrowUturnIcon, CheckIcon } from './Icons';
+import Spinner from './Spinner';
+import GenerationErrorAlert from './GenerationErrorAlert';
+
+type EnhancementTarget = 'image' | 'video';
+
+const STYLES: Record<EnhancementTarget, EnhancementStyle[]> = {
+  image: ['photoreal', 'illustration', 'concise'],
+  video: ['cinematic', 'photoreal', 'illustration', 'concise'],
+};
+
+const SUGGESTION_COUNT = 3;
+
+interface PromptEnhancerProps {
+  target: EnhancementTarget;
+  prompt: string;
+  onApply: (prompt: string) => void;
+  t: (typeof translations)['en'];
+}
+
+const styleLabel = (style: EnhancementStyle, t: (typeof translations)['en']) => ({
+  photoreal: t.enhanceStylePhotoreal,
+  illustration: t.enhanceStyleIllustration,
+  cinematic: t.enhanceStyleCinematic,
+  concise: t.enhanceStyleConcise,
+})[style];
+
+// Asks for rewrites of the prompt as soon as it opens. Suggestions are compared with
+// the prompt as it was when they were requested, which is also what "revert" restores.
+// Closing the panel or asking again aborts a request that is still pending, so the
+// extra mount under StrictMode does not send a second paid request.
+const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ target, prompt, onApply, t }) => {
+  const [style, setStyle] = useState<EnhancementStyle>(STYLES[target][0]);
+  const [original, setOriginal] = useState(prompt);
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [acceptedIndex, setAcceptedIndex] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<GenerationError | string | null>(null);
+  // Only the latest request may update the panel.
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const requestSuggestions = async (nextStyle: EnhancementStyle, source: string) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setStyle(nextStyle);
+    setOriginal(source);
+    setSuggestions([]);
+    setAcceptedIndex(null);
+    setError(null);
+    if (!source.trim()) {
+      setError(t.errorPromptEmpty);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const results = await enhancePrompt(source, { target, style: nextStyle, count: SUGGESTION_COUNT, signal: controller.signal });
+      if (!controller.signal.aborted) setSuggestions(results);
+    } catch (err) {
+      if (!controller.signal.aborted && !isAbortError(err)) setError(toGenerationError(err));
+    } finally {
+      if (!controller.signal.aborted) setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    requestSuggestions(style, prompt);
+    return () => controllerRef.current?.abort();
+  }, []);
+
+  // After accepting, the studio prompt holds the suggestion, so a new round starts from the original.
+  const sourceForNextRound = acceptedIndex === null ? prompt : original;
+
+  const handleAccept = (index: number) => {
+    setAcceptedIndex(index);
+    onApply(suggestions[index]);
+  };
+
+  const handleRevert = () => {
+    setAcceptedIndex(null);
+    onApply(original);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4 animate-fade-in-up">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">{t.enhanceStyle}</span>
+          <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg">
+            {STYLES[target].map(option => (
+              <button key={option} onClick={() => requestSuggestions(option, sourceForNextRound)} disabled={isLoading} className={`px-2 py-1 text-xs font-medium rounded-md transition-colors disabled:cursor-not-allowed ${style === option ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:bg-gray-200'}`} aria-pressed={style === option}>
+                {styleLabel(option, t)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {acceptedIndex !== null && (
+            <button onClick={handleRevert} className="flex items-center px-3 py-1 text-xs font-semibold rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors active:scale-95">
+              <ArrowUturnIcon className="w-4 h-4 mr-1" />{t.revertToOriginal}
+            </button>
+          )}
+          <button onClick={() => requestSuggestions(style, sourceForNextRound)} disabled={isLoading} className="text-sm text-blue-600 hover:text-blue-800 font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed">{t.retrySuggestions}</button>
+        </div>
+      </div>
+
+      {isLoading && <div className="flex justify-center py-4"><Spinner /></div>}
+      {error && <GenerationErrorAlert error={error} onDismiss={() => setError(null)} onRetry={() => requestSuggestions(style, original)} t={t} />}
+
+      {suggestions.length > 0 && (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500">{t.enhanceDiffHint}</p>
+          {suggestions.map((suggestion, index) => (
+            <div key={index} className={`p-3 rounded-md border bg-white transition-colors ${acceptedIndex === index ? 'border-blue-300 ring-1 ring-blue-300' : 'border-gray-200'}`}>
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-xs font-semibold text-gray-500 uppercase">{t.suggestionN(index + 1)}</span>
+                {acceptedIndex === index ? (
+                  <span className="flex items-center text-xs font-medium text-blue-600"><CheckIcon className="w-4 h-4 mr-1" />{t.suggestionInUse}</span>
+                ) : (
+                  <button onClick={() => handleAccept(index)} className="px-3 py-1 text-xs font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white shadow-sm transition-colors active:scale-95">{t.useSuggestion}</button>
+                )}
+              </div>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap break-words">
+                {diffWords(original, suggestion).map((segment, segmentIndex) => (
+                  segment.type === 'same' ? <span key={segmentIndex}>{segment.text}</span>
+                  : segment.type === 'added' ? <ins key={segmentIndex} className="no-underline bg-green-100 text-green-800 rounded-sm">{segment.text}</ins>
+                  : <del key={segmentIndex} className="bg-red-50 text-red-600 rounded-sm">{segment.text}</del>
+                ))}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptEnhancer;
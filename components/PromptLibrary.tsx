@@ -0,0 +1,127 @@
+import React, { useState, useEffect, useRef, ChangeEvent } from 'react';
+import translations from '../translations';
+import {
+  deletePromptTemplate, exportPromptTemplates, importPromptTemplates, listPromptTemplates, savePromptTemplate, subscribeToPromptTemplates,
+} from '../services/promptTemplateStore';
+import type { PromptTemplate, PromptTemplateKind } from '../services/promptTemplateStore';
+import { extractTemplateVariables, fillTemplate } from '../utils/promptTemplate';
+import { downloadBlob } from '../utils/zip';
+import { DownloadIcon, TrashIcon, UploadIcon } from './Icons';
+
+interface PromptLibraryProps {
+  kind: PromptTemplateKind;
+  // The prompt currently in the studio, offered for saving as a template.
+  prompt: string;
+  onApply: (prompt: string) => void;
+  t: (typeof translations)['en'];
+}
+
+const PromptLibrary: React.FC<PromptLibraryProps> = ({ kind, prompt, onApply, t }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => listPromptTemplates(kind));
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [saveName, setSaveName] = useState('');
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const load = () => setTemplates(listPromptTemplates(kind));
+    load();
+    return subscribeToPromptTemplates(load);
+  }, [kind]);
+
+  const selected = templates.find(template => template.id === selectedId) ?? null;
+  const variables = selected ? extractTemplateVariables(selected.text) : [];
+  const preview = selected ? fillTemplate(selected.text, values) : '';
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setValues({});
+    setMessage(null);
+  };
+
+  const handleSave = () => {
+    const name = saveName.trim();
+    if (!name || !prompt.trim()) return;
+    const saved = savePromptTemplate(name, prompt, kind);
+    setSelectedId(saved.id);
+    setValues({});
+    setSaveName('');
+    setMessage({ text: t.templateSaved(name), isError: false });
+  };
+
+  const handleDelete = () => {
+    if (!selected) return;
+    deletePromptTemplate(selected.id);
+    setSelectedId('');
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([exportPromptTemplates(kind)], { type: 'application/json' }), `${kind}-prompt-templates.json`);
+  };
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const count = importPromptTemplates(await file.text(), kind);
+      setMessage({ text: t.templatesImported(count), isError: false });
+    } catch (err) {
+      console.error("Error importing prompt templates:", err);
+      setMessage({ text: t.errorTemplateImport, isError: true });
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 rounded-lg border border-gray-200 space-y-4 animate-fade-in-up">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={selectedId} onChange={(e) => handleSelect(e.target.value)} className="flex-grow min-w-0 text-sm bg-white border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500" aria-label={t.promptTemplates}>
+          <option value="">{templates.length === 0 ? t.noTemplates : t.chooseTemplate}</option>
+          {templates.map(template => <option key={template.id} value={template.id}>{template.name}</option>)}
+        </select>
+        {selected && (
+          <button onClick={handleDelete} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors" aria-label={t.deleteTemplate} title={t.deleteTemplate}>
+            <TrashIcon className="w-4 h-4" />
+          </button>
+        )}
+        <input type="file" className="sr-only" accept=".json,application/json" onChange={handleImport} ref={importInputRef} />
+        <button onClick={() => importInputRef.current?.click()} className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-full transition-colors" aria-label={t.importTemplates} title={t.importTemplates}>
+          <UploadIcon className="w-4 h-4" />
+        </button>
+        <button onClick={handleExport} disabled={templates.length === 0} className="p-2 text-gray-500 hover:text-blue-600 hover:bg-blue-100 rounded-full transition-colors disabled:opacity-30 disabled:hover:bg-transparent" aria-label={t.exportTemplates} title={t.exportTemplates}>
+          <DownloadIcon className="w-4 h-4" />
+        </button>
+      </div>
+
+      {selected && (
+        <div className="space-y-3">
+          {variables.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              {variables.map(name => (
+                <label key={name} className="text-sm font-medium text-gray-700">
+                  <span className="block mb-1">{name}</span>
+                  <input type="text" value={values[name] ?? ''} onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))} className="block w-full text-sm bg-white border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500" />
+                </label>
+              ))}
+            </div>
+          )}
+          <p className="text-sm text-gray-600 bg-white border border-gray-200 rounded-md p-2 whitespace-pre-wrap break-words">{preview}</p>
+          <button onClick={() => onApply(preview)} className="px-3 py-2 text-sm font-medium rounded-md bg-blue-600 hover:bg-blue-700 text-white shadow-sm transition-colors active:scale-95">{t.useTemplate}</button>
+        </div>
+      )}
+
+      <div className="pt-3 border-t border-gray-200">
+        <div className="flex gap-2">
+          <input type="text" value={saveName} onChange={(e) => setSaveName(e.target.value)} placeholder={t.templateName} className="flex-grow min-w-0 text-sm bg-white border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400" />
+          <button onClick={handleSave} disabled={!saveName.trim() || !prompt.trim()} className="px-3 py-2 text-sm font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap">{t.saveAsTemplate}</button>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">{t.templateVariablesHint}</p>
+      </div>
+
+      {message && <p className={`text-xs ${message.isError ? 'text-red-600' : 'text-green-700'}`}>{message.text}</p>}
+    </div>
+  );
+};
+
+export default PromptLibrary;
@@ -0,0 +1,58 @@
+import React, { useState, useEffect } from 'react';
+import translations from '../translations';
+import { listRequestWaits, subscribeToRequestActivity } from '../services/requestActivity';
+import type { RequestKind, RequestWait } from '../services/requestActivity';
+import { ClockIcon } from './Icons';
+
+interface RequestActivityNoticeProps {
+  // Only waits of these kinds are listed.
+  kinds: RequestKind[];
+  t: (typeof translations)['en'];
+}
+
+const kindLabel = (kind: RequestKind, t: (typeof translations)['en']) => ({
+  enhance: t.requestKindEnhance,
+  image: t.requestKindImage,
+  video: t.requestKindVideo,
+  videoStatus: t.requestKindVideoStatus,
+})[kind];
+
+// Lists requests held back by the rate limiter or waiting to retry, with a countdown.
+const RequestActivityNotice: React.FC<RequestActivityNoticeProps> = ({ kinds, t }) => {
+  const [waits, setWaits] = useState<RequestWait[]>(listRequestWaits);
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => subscribeToRequestActivity(() => setWaits(listRequestWaits())), []);
+
+  const visibleWaits = waits.filter(wait => kinds.includes(wait.kind));
+
+  useEffect(() => {
+    if (visibleWaits.length === 0) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [visibleWaits.length > 0]);
+
+  if (visibleWaits.length === 0) return null;
+
+  return (
+    <ul className="mb-4 space-y-1 text-amber-800 bg-amber-50 p-3 rounded-lg text-sm border border-amber-200" aria-live="polite">
+      {visibleWaits.map(wait => {
+        const seconds = Math.max(0, Math.ceil((wait.resumeAt - now) / 1000));
+        const request = kindLabel(wait.kind, t);
+        return (
+          <li key={wait.id} className="flex items-center gap-2">
+            <ClockIcon className="w-4 h-4 flex-shrink-0" />
+            <span>
+              {wait.reason === 'rateLimit'
+                ? t.requestWaitingForRateLimit(request, seconds)
+                : t.requestRetrying(request, wait.status === null ? t.requestNetworkFailure : `HTTP ${wait.status}`, wait.retry, wait.maxRetries, seconds)}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default RequestActivityNotice;
@@ -0,0 +1,37 @@
+import React, { useState, useEffect } from 'react';
+import translations from '../translations';
+import { getBudgetWarnings, subscribeToUsage } from '../services/usageTracker';
+import type { BudgetStatus } from '../services/usageTracker';
+import { formatCost } from './UsagePanel';
+
+interface UsageBudgetNoticeProps {
+  t: (typeof translations)['en'];
+}
+
+// Shown above the generate buttons once a budget is nearly or fully spent. It only
+// warns; requests still run.
+const UsageBudgetNotice: React.FC<UsageBudgetNoticeProps> = ({ t }) => {
+  const [warnings, setWarnings] = useState<BudgetStatus[]>(getBudgetWarnings);
+
+  useEffect(() => subscribeToUsage(() => setWarnings(getBudgetWarnings())), []);
+
+  if (warnings.length === 0) return null;
+
+  const exceeded = warnings.some(warning => warning.exceeded);
+  return (
+    <ul className={`mb-4 space-y-1 p-3 rounded-lg text-sm border ${exceeded ? 'text-red-700 bg-red-50 border-red-200' : 'text-amber-800 bg-amber-50 border-amber-200'}`} role="status">
+      {warnings.map(warning => {
+        const budget = warning.period === 'daily' ? t.usageDailyBudgetName : t.usageSessionBudgetName;
+        return (
+          <li key={warning.period}>
+            {warning.exceeded
+              ? t.usageBudgetExceeded(budget, formatCost(warning.spent), formatCost(warning.limit))
+              : t.usageBudgetNearing(budget, formatCost(warning.spent), formatCost(warning.limit))}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default UsageBudgetNotice;
@@ -0,0 +1,123 @@
+import React, { useState, useEffect } from 'react';
+import translations from '../translations';
+import { clearUsageHistory, getSessionUsage, getUsageBudget, listDailyUsage, setUsageBudget, subscribeToUsage, sumUsage } from '../services/usageTracker';
+import type { UsageBudget, UsageByModel, UsageTotals } from '../services/usageTracker';
+import { ChartIcon, TrashIcon } from './Icons';
+
+type Translations = (typeof translations)['en'];
+
+const VIEWS = ['session', 'daily'] as const;
+const MAX_DAYS_SHOWN = 14;
+
+// Small amounts keep more digits, so a single text call does not show as $0.00.
+export const formatCost = (cost: number): string =>
+  new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD', minimumFractionDigits: 2, maximumFractionDigits: cost > 0 && cost < 1 ? 4 : 2 }).format(cost);
+
+const formatCount = (count: number) => count.toLocaleString();
+
+const UsageRow: React.FC<{ label: string; totals: UsageTotals; emphasis?: boolean }> = ({ label, totals, emphasis = false }) => (
+  <tr className={emphasis ? 'font-semibold text-gray-800 border-t border-gray-200' : 'text-gray-600'}>
+    <td className="py-1.5 pr-3 break-all">{label}</td>
+    <td className="py-1.5 px-2 text-right tabular-nums">{formatCount(totals.calls)}</td>
+    <td className="py-1.5 px-2 text-right tabular-nums">{formatCount(totals.inputTokens)}</td>
+    <td className="py-1.5 px-2 text-right tabular-nums">{formatCount(totals.outputTokens + totals.imageTokens)}</td>
+    <td className="py-1.5 px-2 text-right tabular-nums">{formatCount(totals.images)}</td>
+    <td className="py-1.5 px-2 text-right tabular-nums">{formatCount(totals.videos)}</td>
+    <td className="py-1.5 pl-2 text-right tabular-nums">{formatCost(totals.cost)}</td>
+  </tr>
+);
+
+const UsageTable: React.FC<{ groups: { label: string; models: UsageByModel }[]; t: Translations }> = ({ groups, t }) => (
+  <div className="overflow-x-auto">
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-xs text-gray-500 text-left">
+          <th className="pb-2 pr-3 font-medium">{t.usageModel}</th>
+          <th className="pb-2 px-2 font-medium text-right">{t.usageCalls}</th>
+          <th className="pb-2 px-2 font-medium text-right">{t.usageInputTokens}</th>
+          <th className="pb-2 px-2 font-medium text-right">{t.usageOutputTokens}</th>
+          <th className="pb-2 px-2 font-medium text-right">{t.usageImages}</th>
+          <th className="pb-2 px-2 font-medium text-right">{t.usageVideos}</th>
+          <th className="pb-2 pl-2 font-medium text-right">{t.usageCost}</th>
+        </tr>
+      </thead>
+      {groups.map(group => (
+        <tbody key={group.label}>
+          {Object.entries(group.models).sort(([a], [b]) => a.localeCompare(b)).map(([model, totals]) => (
+            <UsageRow key={model} label={model} totals={totals} />
+          ))}
+          <UsageRow label={group.label} totals={sumUsage(group.models)} emphasis />
+        </tbody>
+      ))}
+    </table>
+  </div>
+);
+
+const toBudgetInput = (limit: number | null) => limit === null ? '' : String(limit);
+
+// Totals for this session and for each recent day, with optional spending limits.
+const UsagePanel: React.FC<{ t: Translations }> = ({ t }) => {
+  const [view, setView] = useState<(typeof VIEWS)[number]>('session');
+  const [sessionUsage, setSessionUsage] = useState<UsageByModel>(getSessionUsage);
+  const [dailyUsage, setDailyUsage] = useState(listDailyUsage);
+  const [budget, setBudget] = useState<UsageBudget>(getUsageBudget);
+  // Edited as text and saved on blur, so partial input such as "0." is not rejected.
+  const [budgetInputs, setBudgetInputs] = useState(() => ({ daily: toBudgetInput(budget.daily), session: toBudgetInput(budget.session) }));
+
+  useEffect(() => subscribeToUsage(() => {
+    setSessionUsage(getSessionUsage());
+    setDailyUsage(listDailyUsage());
+    setBudget(getUsageBudget());
+  }), []);
+
+  const handleSaveBudget = (period: keyof UsageBudget) => {
+    const value = Number(budgetInputs[period]);
+    const limit = budgetInputs[period].trim() && Number.isFinite(value) && value > 0 ? value : null;
+    setUsageBudget({ ...budget, [period]: limit });
+    setBudgetInputs(prev => ({ ...prev, [period]: toBudgetInput(limit) }));
+  };
+
+  const groups = view === 'session'
+    ? (Object.keys(sessionUsage).length > 0 ? [{ label: t.usageTotal, models: sessionUsage }] : [])
+    : dailyUsage.slice(0, MAX_DAYS_SHOWN).map(({ day, models }) => ({ label: day, models }));
+  const unpricedCalls = groups.reduce((sum, group) => sum + sumUsage(group.models).unpricedCalls, 0);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+        <h3 className="text-lg font-semibold text-gray-800 flex items-center"><ChartIcon className="w-5 h-5 mr-2" />{t.usage}</h3>
+        <div className="flex items-center gap-2">
+          <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+            {VIEWS.map(option => (
+              <button key={option} onClick={() => setView(option)} className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${view === option ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:bg-gray-200'}`} aria-pressed={view === option}>
+                {option === 'session' ? t.usageSession : t.usageDaily}
+              </button>
+            ))}
+          </div>
+          {view === 'daily' && dailyUsage.length > 0 && (
+            <button onClick={clearUsageHistory} className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-100 rounded-full transition-colors" aria-label={t.usageClearHistory} title={t.usageClearHistory}>
+              <TrashIcon className="w-5 h-5" />
+            </button>
+          )}
+        </div>
+      </div>
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-500 text-center py-4">{t.usageEmpty}</p>
+      ) : (
+        <UsageTable groups={groups} t={t} />
+      )}
+      {unpricedCalls > 0 && <p className="mt-3 text-xs text-amber-700">{t.usageUnpriced(unpricedCalls)}</p>}
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mt-4">
+        {(['daily', 'session'] as const).map(period => (
+          <label key={period} className="text-sm font-medium text-gray-700">
+            <span className="block mb-1">{period === 'daily' ? t.usageDailyBudget : t.usageSessionBudget}</span>
+            <input type="number" min="0" step="0.01" inputMode="decimal" value={budgetInputs[period]} placeholder={t.usageNoLimit} onChange={(e) => setBudgetInputs(prev => ({ ...prev, [period]: e.target.value }))} onBlur={() => handleSaveBudget(period)} className="w-full text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500" />
+          </label>
+        ))}
+      </div>
+      <p className="mt-3 text-xs text-gray-500">{t.usageEstimateNote}</p>
+    </div>
+  );
+};
+
+export default UsagePanel;
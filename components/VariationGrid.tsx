@@ -0,0 +1,97 @@
+import React, { useState, useEffect } from 'react';
+import translations from '../translations';
+import type { EditNode } from '../utils/editTree';
+import { createZip, downloadBlob } from '../utils/zip';
+import { extensionForDataUrl } from '../utils/imageFile';
+import { DownloadIcon, StarIcon } from './Icons';
+import CompareSlider from './CompareSlider';
+import Spinner from './Spinner';
+
+interface VariationGridProps {
+  variations: EditNode[];
+  favoriteId: string | null;
+  onPickFavorite: (node: EditNode) => void;
+  t: (typeof translations)['en'];
+}
+
+const VariationGrid: React.FC<VariationGridProps> = ({ variations, favoriteId, onPickFavorite, t }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+
+  useEffect(() => { setCompareIds([]); setIsComparing(false); }, [variations]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(existing => existing !== id);
+      // Keep the two most recent picks.
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const handleDownloadAll = async () => {
+    setIsZipping(true);
+    try {
+      const entries = variations.map((node, index) => ({
+        name: `variation-${index + 1}.${extensionForDataUrl(node.image.base64)}`,
+        data: node.image.file,
+      }));
+      downloadBlob(await createZip(entries), 'variations.zip');
+    } catch (err) {
+      console.error("Error creating zip:", err);
+    } finally { setIsZipping(false); }
+  };
+
+  const labelFor = (id: string) => t.variationN(variations.findIndex(node => node.id === id) + 1);
+  const compareNodes = compareIds.map(id => variations.find(node => node.id === id)).filter((node): node is EditNode => !!node);
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
+      {isComparing && compareNodes.length === 2 && (
+        <CompareSlider
+          beforeUrl={compareNodes[0].image.base64}
+          afterUrl={compareNodes[1].image.base64}
+          beforeLabel={labelFor(compareNodes[0].id)}
+          afterLabel={labelFor(compareNodes[1].id)}
+          onClose={() => setIsComparing(false)}
+          t={t}
+        />
+      )}
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-1">
+        <h3 className="text-lg font-semibold text-gray-800">{t.variations}</h3>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setIsComparing(true)} disabled={compareNodes.length !== 2} className="px-3 py-1.5 text-xs font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">{t.compare}</button>
+          <button onClick={handleDownloadAll} disabled={isZipping} className="flex items-center px-3 py-1.5 text-xs font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors disabled:opacity-50">
+            {isZipping ? <Spinner size="sm" /> : <DownloadIcon className="w-4 h-4" />}
+            <span className="ml-1">{t.downloadAll}</span>
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mb-4">{t.variationsDescription}</p>
+      <div className="grid grid-cols-2 gap-3">
+        {variations.map((node, index) => {
+          const isFavorite = node.id === favoriteId;
+          const isSelected = compareIds.includes(node.id);
+          return (
+            <div key={node.id} className="space-y-1">
+              <div className={`relative group aspect-square rounded-lg overflow-hidden border-2 transition-colors ${isFavorite ? 'border-blue-500' : 'border-gray-200'}`}>
+                <button onClick={() => onPickFavorite(node)} className="w-full h-full" aria-label={t.pickFavorite} aria-pressed={isFavorite}>
+                  <img src={node.image.base64} alt={t.variationN(index + 1)} className="w-full h-full object-cover" />
+                </button>
+                <span className="absolute bottom-1 left-1 text-[10px] font-semibold text-white bg-black/60 px-1.5 py-0.5 rounded">{t.variationN(index + 1)}</span>
+                {isFavorite && <StarIcon className="absolute top-1.5 left-1.5 w-5 h-5 text-yellow-400 drop-shadow" />}
+                <label className="absolute top-1.5 right-1.5 flex items-center gap-1 text-[10px] font-semibold text-white bg-black/60 px-1.5 py-0.5 rounded cursor-pointer">
+                  <input type="checkbox" checked={isSelected} onChange={() => toggleCompare(node.id)} className="w-3 h-3" />
+                  {t.compare}
+                </label>
+              </div>
+              {node.caption && <p className="text-xs text-gray-600 line-clamp-3" title={node.caption}>{node.caption}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VariationGrid;
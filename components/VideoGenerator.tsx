@@ -1,16 +1,38 @@
-import React, { useState, useCallback, ChangeEvent, useEffect } from 'react';
+import React, { useState, useCallback, ChangeEvent, useEffect, useRef } from 'react';
 import type { ImageFile } from '../App';
 import translations from '../translations';
-import { generateVideo } from '../services/geminiService';
-import { PhotoIcon, VideoIcon, DownloadIcon } from './Icons';
+import { getGenerationProvider } from '../services/generationProvider';
+import type { VideoGenerationOptions } from '../services/generationProvider';
+import { listVideoJobs } from '../services/videoJobStore';
+import { canResubmitJob, cancelQueueJob, enqueueVideoJob, isActiveJob, listQueueJobs, retryQueueJob, subscribeToQueue } from '../services/jobQueue';
+import type { QueueJob, VideoQueueJob } from '../services/jobQueue';
+import type { GenerationError } from '../services/generationError';
+import type { HistoryEntry } from '../services/historyStore';
+import { dataURLtoImageFile } from '../utils/imageFile';
+import { preprocessImageFile } from '../utils/imagePreprocess';
+import type { OutputMimeType } from '../utils/imagePreprocess';
+import { PhotoIcon, VideoIcon, DownloadIcon, CropIcon, BookmarkIcon, SparklesIcon } from './Icons';
 import Spinner from './Spinner';
 import AnimatedWrapper from './AnimatedWrapper';
+import HistoryGallery from './HistoryGallery';
+import CropEditor from './CropEditor';
+import VideoSettingsPanel from './VideoSettingsPanel';
+import VideoProgressTimeline from './VideoProgressTimeline';
+import JobQueuePanel from './JobQueuePanel';
+import PromptLibrary from './PromptLibrary';
+import PromptEnhancer from './PromptEnhancer';
+import ImageSizeSummary from './ImageSizeSummary';
+import GenerationErrorAlert from './GenerationErrorAlert';
+import RequestActivityNotice from './RequestActivityNotice';
+import UsageBudgetNotice from './UsageBudgetNotice';
 
 interface VideoGeneratorProps {
+  // Format uploads are converted to; undefined picks one from the uploaded file.
+  uploadFormat?: OutputMimeType;
   t: (typeof translations)['en'];
 }
 
-const VideoDisplay: React.FC<{ title: string; videoUrl: string | null; isLoading?: boolean; status?: string; onDownload?: () => void; text: { videoWillAppear: string, downloadVideo: string } }> = ({ title, videoUrl, isLoading = false, status, onDownload, text }) => {
+const VideoDisplay: React.FC<{ title: string; videoUrl: string | null; isLoading?: boolean; progress?: React.ReactNode; details?: string[]; onDownload?: () => void; onCancel?: () => void; text: { videoWillAppear: string, downloadVideo: string, generating: string, cancel: string, cancelNote: string } }> = ({ title, videoUrl, isLoading = false, progress, details = [], onDownload, onCancel, text }) => {
   return (
     <div className="w-full">
         <div className="flex justify-between items-center mb-2">
@@ -26,7 +48,10 @@ const VideoDisplay: React.FC<{ title: string; videoUrl: string | null; isLoading
         {isLoading && (
           <div className="absolute inset-0 bg-black bg-opacity-80 flex flex-col items-center justify-center z-10 p-4 text-white transition-opacity duration-300">
             <Spinner />
-            <p className="mt-4 text-center text-sm">{status || "Generating..."}</p>
+            <p className="mt-4 text-center text-sm">{text.generating}...</p>
+            {onCancel && (
+              <button onClick={onCancel} className="mt-4 px-4 py-1.5 text-sm rounded-md bg-white/20 hover:bg-white/30 transition-colors" title={text.cancelNote}>{text.cancel}</button>
+            )}
           </div>
         )}
         {videoUrl ? (
@@ -38,42 +63,80 @@ const VideoDisplay: React.FC<{ title: string; videoUrl: string | null; isLoading
           </div>
         )}
       </div>
+      {progress}
+      {videoUrl && details.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-3">
+          {details.map(detail => <span key={detail} className="text-xs text-gray-600 bg-gray-100 border border-gray-200 px-2 py-0.5 rounded-full">{detail}</span>)}
+        </div>
+      )}
     </div>
   );
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve(reader.result as string);
-      reader.onerror = (error) => reject(error);
-    });
-};
+// File extension for a video mime type, e.g. `webm` for video/webm;codecs=vp9.
+// Veo returns MP4 and the mock provider WebM.
+const extensionForVideoType = (type: string): string =>
+  type.match(/^video\/(\w+)/)?.[1]?.replace('quicktime', 'mov') ?? 'mp4';
+
+const defaultVideoSettings = (): VideoGenerationOptions => ({
+  model: getGenerationProvider().models.video,
+  resolution: '720p',
+  aspectRatio: '16:9',
+  negativePrompt: '',
+  numberOfVideos: 1,
+});
 
-const VideoGenerator: React.FC<VideoGeneratorProps> = ({ t }) => {
-  const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [error, setError] = useState<string | null>(null);
+const VideoGenerator: React.FC<VideoGeneratorProps> = ({ uploadFormat, t }) => {
+  const [error, setError] = useState<GenerationError | string | null>(null);
   const [startImage, setStartImage] = useState<ImageFile | null>(null);
-  const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
+  const [generatedVideoUrls, setGeneratedVideoUrls] = useState<string[]>([]);
+  const [selectedVideoIndex, setSelectedVideoIndex] = useState<number>(0);
+  const [videoSettings, setVideoSettings] = useState<VideoGenerationOptions>(defaultVideoSettings);
+  const [resultSettings, setResultSettings] = useState<VideoGenerationOptions | null>(null);
   const [videoPrompt, setVideoPrompt] = useState<string>('');
-  const [videoGenerationStatus, setVideoGenerationStatus] = useState<string>('');
+  const [queueJobs, setQueueJobs] = useState<QueueJob[]>(listQueueJobs);
+  // The job shown in the preview: the latest one submitted or opened from the queue.
+  const [focusedJobId, setFocusedJobId] = useState<string | null>(null);
   const [hasApiKey, setHasApiKey] = useState<boolean | null>(null);
+  const [isCropEditorOpen, setIsCropEditorOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isEnhancerOpen, setIsEnhancerOpen] = useState(false);
+  const generatedVideoUrl = generatedVideoUrls[selectedVideoIndex] ?? null;
+  const focusedJob = queueJobs.find((job): job is VideoQueueJob => job.id === focusedJobId && job.kind === 'video');
+  const isLoading = !!focusedJob && isActiveJob(focusedJob);
+  // Object URLs made here for history entries. Queue results are not listed; the
+  // queue releases them when their job is removed.
+  const historyVideoUrlsRef = useRef(new Set<string>());
+
+  useEffect(() => subscribeToQueue(() => setQueueJobs(listQueueJobs())), []);
 
+  // Clear the preview once the queue removes the job whose videos it shows.
   useEffect(() => {
-    if (hasApiKey === null) {
-      checkApiKey();
+    const queuedUrls = new Set(queueJobs.flatMap(job => job.kind === 'video' ? job.result ?? [] : []));
+    if (generatedVideoUrls.some(url => !historyVideoUrlsRef.current.has(url) && !queuedUrls.has(url))) {
+      setGeneratedVideoUrls([]);
+      setResultSettings(null);
     }
-  }, [hasApiKey]);
+  }, [queueJobs, generatedVideoUrls]);
+
+  // Release a history video once it is replaced or the generator unmounts.
+  useEffect(() => () => {
+    generatedVideoUrls.forEach(url => {
+      if (historyVideoUrlsRef.current.delete(url)) URL.revokeObjectURL(url);
+    });
+  }, [generatedVideoUrls]);
 
   useEffect(() => {
-    if (error) {
-        const timer = setTimeout(() => setError(null), 5000);
-        return () => clearTimeout(timer);
+    if (hasApiKey === null) {
+      checkApiKey();
     }
-  }, [error]);
+  }, [hasApiKey]);
 
   const checkApiKey = async () => {
+    if (!getGenerationProvider().requiresKeySelection) {
+      setHasApiKey(true);
+      return;
+    }
     try {
       if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
         const keySelected = await window.aistudio.hasSelectedApiKey();
@@ -94,7 +157,7 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ t }) => {
       setHasApiKey(true);
     } catch (e) {
       console.error("Could not open API key selection:", e);
-      setError("Failed to open the API key selection dialog.");
+      setError(t.errorOpenKeySelection);
     }
   };
 
@@ -102,38 +165,107 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ t }) => {
     const file = event.target.files?.[0];
     if (file) {
       if (!file.type.startsWith('image/')) { setError(t.errorInvalidImage); return; }
-      setError(null); setGeneratedVideoUrl(null);
+      setError(null); setGeneratedVideoUrls([]);
       try {
-        const base64 = await fileToBase64(file);
-        setStartImage({ file, base64 });
-      } catch (err) { setError(t.errorReadFile); console.error(err); }
+        setStartImage(await preprocessImageFile(file, { mimeType: uploadFormat }));
+      } catch (err) { setError(t.errorImageDecode); console.error(err); }
     }
-  }, [t]);
+  }, [uploadFormat, t]);
 
-  const handleVideoSubmit = async () => {
+  // Pick up jobs submitted before a reload, oldest first. Jobs the queue already
+  // tracks, e.g. after switching modes, are left alone.
+  useEffect(() => {
+    if (!hasApiKey) return;
+    const providerId = getGenerationProvider().id;
+    const tracked = new Set(listQueueJobs().map(job => job.kind === 'video' ? job.providerJobId : null));
+    const records = listVideoJobs().filter(record => record.providerId === providerId && !tracked.has(record.id));
+    const resumed = records.map(record => enqueueVideoJob(
+      { prompt: record.prompt, startImage: null, settings: { ...defaultVideoSettings(), ...record.settings }, startImageLost: record.hasStartImage },
+      { providerJobId: record.id, submittedAt: record.startedAt }
+    ));
+    const latest = resumed[resumed.length - 1];
+    if (latest) {
+      setVideoPrompt(latest.input.prompt);
+      setVideoSettings(latest.input.settings);
+      setFocusedJobId(latest.id);
+    }
+  }, [hasApiKey]);
+
+  // Show the focused job's videos, or its error, once it finishes.
+  useEffect(() => {
+    if (!focusedJob || isActiveJob(focusedJob)) return;
+    if (focusedJob.status === 'succeeded' && focusedJob.result) {
+      setGeneratedVideoUrls(focusedJob.result);
+      setSelectedVideoIndex(0);
+      setResultSettings(focusedJob.input.settings);
+    } else if (focusedJob.status === 'failed' && focusedJob.error) {
+      setError(focusedJob.error);
+    }
+  }, [focusedJob]);
+
+  const handleRetryFocusedJob = () => {
+    setError(null);
+    if (focusedJob) retryQueueJob(focusedJob.id);
+  };
+
+  const handleVideoSubmit = () => {
     if (!videoPrompt) { setError(t.errorVideoPromptEmpty); return; }
-    setIsLoading(true); setError(null); setGeneratedVideoUrl(null);
-    try {
-      const startImageData = startImage ? { base64Data: startImage.base64.split(',')[1], mimeType: startImage.file.type } : null;
-      const resultUrl = await generateVideo(videoPrompt, startImageData, setVideoGenerationStatus);
-      setGeneratedVideoUrl(resultUrl);
-    } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : typeof err === 'string' ? err : t.errorUnexpected;
-        if (errorMessage.includes('API key not found')) { setHasApiKey(false); }
-        setError(errorMessage);
-    } finally { setIsLoading(false); setVideoGenerationStatus(''); }
+    setError(null); setGeneratedVideoUrls([]); setResultSettings(null);
+    const job = enqueueVideoJob({ prompt: videoPrompt, startImage, settings: { ...videoSettings } });
+    setFocusedJobId(job.id);
   };
+
+  const handleOpenQueueJob = (job: QueueJob) => {
+    if (job.kind !== 'video') return;
+    setError(null);
+    setFocusedJobId(job.id);
+    if (job.result) {
+      setGeneratedVideoUrls(job.result);
+      setSelectedVideoIndex(0);
+      setResultSettings(job.input.settings);
+    }
+  };
+
+  const handleCancelVideo = () => { if (focusedJobId) cancelQueueJob(focusedJobId); };
   
-  const downloadVideo = (videoUrl: string, fileName: string) => {
+  const handleOpenHistoryEntry = (entry: HistoryEntry) => {
+    if (entry.kind !== 'video') return;
+    setError(null);
+    setVideoPrompt(entry.prompt);
+    setStartImage(entry.startImage ? dataURLtoImageFile(entry.startImage.dataUrl, entry.startImage.name) : null);
+    const videoUrl = URL.createObjectURL(entry.resultBlob);
+    historyVideoUrlsRef.current.add(videoUrl);
+    setGeneratedVideoUrls([videoUrl]);
+    setFocusedJobId(null);
+    setSelectedVideoIndex(0);
+    setResultSettings(entry.settings ?? null);
+    if (entry.settings) setVideoSettings({ ...defaultVideoSettings(), ...entry.settings });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const downloadVideo = async (videoUrl: string, baseName: string) => {
+    let extension = 'mp4';
+    try {
+      extension = extensionForVideoType((await (await fetch(videoUrl)).blob()).type);
+    } catch (err) {
+      console.error("Error reading video type:", err);
+    }
     const link = document.createElement('a');
     link.href = videoUrl;
-    link.download = fileName;
+    link.download = `${baseName}.${extension}`;
     link.target = '_blank'; // Necessary for blob URLs in some browsers
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const resultDetails = resultSettings ? [
+    resultSettings.model,
+    resultSettings.resolution,
+    resultSettings.aspectRatio === '9:16' ? t.portrait : resultSettings.aspectRatio === '16:9' ? t.landscape : undefined,
+    resultSettings.negativePrompt ? `${t.negativePrompt}: ${resultSettings.negativePrompt}` : undefined,
+  ].filter((detail): detail is string => !!detail) : [];
+
   const renderContent = () => {
       if (hasApiKey === null) {
           return <div className="flex items-center justify-center h-full"><Spinner /></div>;
@@ -160,19 +292,46 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ t }) => {
                         <span className="mt-4 font-semibold text-blue-600">{startImage ? t.changeFile : t.uploadAFile}</span>
                         {!startImage && <span className="text-xs text-gray-500">{t.dragAndDrop}</span>}
                     </label>
-                    <input id="start-image-upload" type="file" className="sr-only" accept="image/*" onChange={handleStartImageUpload} disabled={isLoading} />
+                    <input id="start-image-upload" type="file" className="sr-only" accept="image/*" onChange={handleStartImageUpload} />
+                    {startImage && (
+                        <div className="mt-3 space-y-3">
+                            <ImageSizeSummary image={startImage} t={t} />
+                            <button onClick={() => setIsCropEditorOpen(true)} className="flex items-center px-3 py-2 text-sm font-medium rounded-md bg-white hover:bg-gray-100 text-gray-700 border border-gray-300 shadow-sm transition-colors active:scale-95">
+                                <CropIcon className="w-4 h-4 mr-2" />{t.cropImage}
+                            </button>
+                        </div>
+                    )}
                 </div>
               </AnimatedWrapper>
               <AnimatedWrapper delay={100}>
                 <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300">
-                    <label htmlFor="video-prompt" className="text-lg font-semibold text-gray-800 mb-2 block">{t.describeVideo}</label>
-                    <textarea id="video-prompt" rows={4} className="block w-full sm:text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400 transition" placeholder={t.videoPromptPlaceholder} value={videoPrompt} onChange={(e) => setVideoPrompt(e.target.value)} disabled={isLoading} />
+                    <div className="flex justify-between items-center mb-2">
+                        <label htmlFor="video-prompt" className="text-lg font-semibold text-gray-800">{t.describeVideo}</label>
+                        <div className="flex items-center gap-2">
+                            <button onClick={() => setIsLibraryOpen(open => !open)} className={`flex items-center px-3 py-1 text-xs font-semibold rounded-md border shadow-sm transition-colors active:scale-95 ${isLibraryOpen ? 'bg-blue-50 text-blue-700 border-blue-300' : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-100'}`} aria-pressed={isLibraryOpen}>
+                                <BookmarkIcon className="w-4 h-4" />
+                                <span className="ml-2">{t.promptTemplates}</span>
+                            </button>
+                            <button onClick={() => setIsEnhancerOpen(open => !open)} disabled={!videoPrompt.trim() && !isEnhancerOpen} className="flex items-center px-3 py-1 text-xs font-semibold rounded-md text-white bg-gradient-to-r from-blue-500 to-cyan-400 hover:from-blue-600 hover:to-cyan-500 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-sm active:scale-95" aria-pressed={isEnhancerOpen}>
+                                <SparklesIcon className="w-4 h-4" />
+                                <span className="ml-2">{t.enhance}</span>
+                            </button>
+                        </div>
+                    </div>
+                    <textarea id="video-prompt" rows={4} className="block w-full sm:text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400 transition" placeholder={t.videoPromptPlaceholder} value={videoPrompt} onChange={(e) => setVideoPrompt(e.target.value)} />
+                    {isEnhancerOpen && <PromptEnhancer target="video" prompt={videoPrompt} onApply={setVideoPrompt} t={t} />}
+                    {isLibraryOpen && <PromptLibrary kind="video" prompt={videoPrompt} onApply={setVideoPrompt} t={t} />}
                 </div>
               </AnimatedWrapper>
+              <AnimatedWrapper delay={200}>
+                <VideoSettingsPanel settings={videoSettings} onChange={setVideoSettings} modelChoices={getGenerationProvider().models.videoChoices} t={t} />
+              </AnimatedWrapper>
               <div className="sticky bottom-6 z-10">
-                 {error && <AnimatedWrapper><p className="text-red-600 bg-red-100 p-3 rounded-lg text-sm text-center mb-4 border border-red-200">{error}</p></AnimatedWrapper>}
-                  <button onClick={handleVideoSubmit} disabled={!videoPrompt || isLoading} className="w-full flex items-center justify-center px-6 py-4 border border-transparent text-base font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-cyan-500 hover:from-blue-700 hover:to-cyan-600 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-blue-500/50 active:scale-98">
-                      {isLoading ? <><Spinner /><span className="ml-3">{t.generatingVideo}...</span></> : <><VideoIcon className="w-5 h-5 mr-2"/>{t.generateVideoBtn}</>}
+                 <RequestActivityNotice kinds={['video', 'videoStatus', 'enhance']} t={t} />
+                 <UsageBudgetNotice t={t} />
+                 {error && <AnimatedWrapper><div className="mb-4"><GenerationErrorAlert error={error} onDismiss={() => setError(null)} onRetry={focusedJob?.status === 'failed' && canResubmitJob(focusedJob) ? handleRetryFocusedJob : undefined} onSelectKey={getGenerationProvider().requiresKeySelection ? handleSelectKey : undefined} t={t} /></div></AnimatedWrapper>}
+                  <button onClick={handleVideoSubmit} disabled={!videoPrompt} className="w-full flex items-center justify-center px-6 py-4 border border-transparent text-base font-medium rounded-xl text-white bg-gradient-to-r from-blue-600 to-cyan-500 hover:from-blue-700 hover:to-cyan-600 disabled:from-gray-400 disabled:to-gray-500 disabled:cursor-not-allowed transition-all shadow-lg hover:shadow-blue-500/50 active:scale-98">
+                      <VideoIcon className="w-5 h-5 mr-2"/>{t.generateVideoBtn}
                   </button>
               </div>
           </div>
@@ -181,14 +340,36 @@ const VideoGenerator: React.FC<VideoGeneratorProps> = ({ t }) => {
 
   return (
     <main className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+      {isCropEditorOpen && startImage && (
+        <CropEditor image={startImage} onClose={() => setIsCropEditorOpen(false)} onSave={(image) => { setStartImage(image); setIsCropEditorOpen(false); }} t={t} />
+      )}
       <div className="h-full">
           {renderContent()}
       </div>
       <div className="flex items-start">
         <AnimatedWrapper delay={100}>
-            <VideoDisplay title={t.generatedVideo} videoUrl={generatedVideoUrl} isLoading={isLoading} status={videoGenerationStatus} onDownload={() => generatedVideoUrl && downloadVideo(generatedVideoUrl, 'generated-video.mp4')} text={{ videoWillAppear: t.videoWillAppear, downloadVideo: t.downloadVideo }}/>
+            <VideoDisplay title={t.generatedVideo} videoUrl={generatedVideoUrl} isLoading={isLoading} progress={focusedJob && focusedJob.progress.length > 0 && <VideoProgressTimeline events={focusedJob.progress} startedAt={focusedJob.submittedAt} isRunning={isLoading} t={t} />} details={resultDetails} onCancel={isLoading ? handleCancelVideo : undefined} onDownload={() => generatedVideoUrl && downloadVideo(generatedVideoUrl, `generated-video-${selectedVideoIndex + 1}`)} text={{ videoWillAppear: t.videoWillAppear, downloadVideo: t.downloadVideo, generating: t.generatingVideo, cancel: t.cancelGeneration, cancelNote: t.cancelGenerationNote }}/>
+            {generatedVideoUrls.length > 1 && (
+                <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg mt-3 w-fit">
+                    {generatedVideoUrls.map((url, index) => (
+                        <button key={url} onClick={() => setSelectedVideoIndex(index)} className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${selectedVideoIndex === index ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:bg-gray-200'}`} aria-pressed={selectedVideoIndex === index}>
+                            {t.videoN(index + 1)}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {queueJobs.some(job => job.kind === 'video') && (
+                <div className="mt-6">
+                    <JobQueuePanel kind="video" onOpen={handleOpenQueueJob} focusedJobId={focusedJobId} t={t} />
+                </div>
+            )}
         </AnimatedWrapper>
       </div>
+      {hasApiKey && (
+        <AnimatedWrapper delay={200} className="lg:col-span-2">
+            <HistoryGallery kind="video" onOpen={handleOpenHistoryEntry} t={t} />
+        </AnimatedWrapper>
+      )}
     </main>
   );
 };
@@ -0,0 +1,99 @@
+import React, { useState, useEffect } from 'react';
+import translations from '../translations';
+import type { VideoProgressEvent } from '../services/generationProvider';
+import { formatBytes } from '../utils/imagePreprocess';
+import { CheckIcon, XIcon } from './Icons';
+import Spinner from './Spinner';
+import { generationErrorMessage } from './GenerationErrorAlert';
+
+interface VideoProgressTimelineProps {
+  events: VideoProgressEvent[];
+  // When the job was submitted; null until it is.
+  startedAt: number | null;
+  isRunning: boolean;
+  t: (typeof translations)['en'];
+}
+
+const STAGES = ['submitted', 'polling', 'done', 'downloading'] as const;
+type Stage = typeof STAGES[number];
+
+export const formatElapsed = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+const lastOfType = <T extends VideoProgressEvent['type']>(events: VideoProgressEvent[], type: T) =>
+  [...events].reverse().find((event): event is Extract<VideoProgressEvent, { type: T }> => event.type === type);
+
+const VideoProgressTimeline: React.FC<VideoProgressTimelineProps> = ({ events, startedAt, isRunning, t }) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isRunning) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isRunning]);
+
+  const failed = lastOfType(events, 'failed');
+  const reached = events.reduce((furthest, event) => Math.max(furthest, STAGES.indexOf(event.type as Stage)), -1);
+  // The stage after the furthest one reached is in progress; downloading stays current until the job ends.
+  const currentIndex = reached === STAGES.length - 1 ? reached : reached + 1;
+  const isComplete = !isRunning && !failed && reached === STAGES.length - 1;
+
+  const polling = lastOfType(events, 'polling');
+  const done = lastOfType(events, 'done');
+  const downloading = lastOfType(events, 'downloading');
+  const details: Record<Stage, string | null> = {
+    submitted: lastOfType(events, 'submitted')?.resumed ? t.progressResumed : null,
+    polling: polling ? t.pollAttempt(polling.attempt) : null,
+    done: done ? formatElapsed(done.elapsedMs) : null,
+    downloading: downloading
+      ? `${downloading.videoCount > 1 ? `${t.videoN(downloading.videoIndex + 1)}: ` : ''}${formatBytes(downloading.loadedBytes)}${downloading.totalBytes ? ` / ${formatBytes(downloading.totalBytes)}` : ''}`
+      : null,
+  };
+  const labels: Record<Stage, string> = {
+    submitted: t.progressSubmitted,
+    polling: t.progressPolling,
+    done: t.progressDone,
+    downloading: t.progressDownloading,
+  };
+
+  return (
+    <div className="mt-3 p-4 bg-white rounded-lg border border-gray-200 shadow-sm">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-sm font-semibold text-gray-700">{t.progressTitle}</span>
+        {startedAt !== null && (
+          <span className="text-xs font-mono text-gray-500">{t.elapsed}: {formatElapsed(now - startedAt)}</span>
+        )}
+      </div>
+      <ol className="space-y-2">
+        {STAGES.map((stage, index) => {
+          const isFailedStage = !!failed && index === currentIndex;
+          const isDone = isComplete || index < currentIndex;
+          const isCurrent = !isDone && index === currentIndex;
+          return (
+            <li key={stage} className="flex items-start gap-3">
+              <span className={`flex-shrink-0 w-5 h-5 rounded-full flex items-center justify-center ${isFailedStage ? 'bg-red-100 text-red-600' : isDone ? 'bg-green-100 text-green-600' : isCurrent ? 'bg-blue-100 text-blue-600' : 'bg-gray-100 text-gray-300'}`}>
+                {isFailedStage ? <XIcon className="w-3 h-3" /> : isDone ? <CheckIcon className="w-3 h-3" /> : isCurrent && isRunning ? <Spinner size="sm" /> : <span className="w-1.5 h-1.5 rounded-full bg-current" />}
+              </span>
+              <div className="min-w-0">
+                <p className={`text-sm ${isFailedStage ? 'text-red-600 font-medium' : isDone || isCurrent ? 'text-gray-800' : 'text-gray-400'}`}>{labels[stage]}</p>
+                {isFailedStage && failed ? (
+                  <p className="text-xs text-red-500 break-words" title={failed.error.message}>{generationErrorMessage(failed.error, t)}</p>
+                ) : (isDone || isCurrent) && details[stage] ? (
+                  <p className="text-xs text-gray-500">{details[stage]}</p>
+                ) : null}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
+
+export default VideoProgressTimeline;
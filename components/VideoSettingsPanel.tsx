@@ -0,0 +1,68 @@
+import React from 'react';
+import translations from '../translations';
+import type { VideoAspectRatio, VideoGenerationOptions, VideoResolution } from '../services/generationProvider';
+
+interface VideoSettingsPanelProps {
+  settings: VideoGenerationOptions;
+  onChange: (settings: VideoGenerationOptions) => void;
+  modelChoices: string[];
+  disabled?: boolean;
+  t: (typeof translations)['en'];
+}
+
+export const MAX_VIDEOS = 2;
+const RESOLUTIONS: VideoResolution[] = ['720p', '1080p'];
+const ASPECT_RATIOS: VideoAspectRatio[] = ['16:9', '9:16'];
+
+const segmentClass = (active: boolean) =>
+  `px-3 py-1 text-sm font-medium rounded-md transition-colors ${active ? 'bg-white text-blue-600 shadow-sm' : 'text-gray-600 hover:bg-gray-200'}`;
+
+const VideoSettingsPanel: React.FC<VideoSettingsPanelProps> = ({ settings, onChange, modelChoices, disabled = false, t }) => {
+  const update = (changes: Partial<VideoGenerationOptions>) => onChange({ ...settings, ...changes });
+
+  return (
+    <div className="bg-white p-6 rounded-xl border border-gray-200 shadow-sm hover:shadow-lg transition-shadow duration-300 space-y-4">
+      <h3 className="text-lg font-semibold text-gray-800">{t.videoSettings}</h3>
+      {modelChoices.length > 1 && (
+        <div className="flex items-center justify-between gap-4">
+          <label htmlFor="video-model" className="text-sm font-medium text-gray-700">{t.model}</label>
+          <select id="video-model" value={settings.model} onChange={(e) => update({ model: e.target.value })} disabled={disabled} className="text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500">
+            {modelChoices.map(model => <option key={model} value={model}>{model}</option>)}
+          </select>
+        </div>
+      )}
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-medium text-gray-700">{t.resolution}</span>
+        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+          {RESOLUTIONS.map(resolution => (
+            <button key={resolution} onClick={() => update({ resolution })} disabled={disabled} className={segmentClass(settings.resolution === resolution)} aria-pressed={settings.resolution === resolution}>{resolution}</button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-medium text-gray-700">{t.aspectRatio}</span>
+        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+          {ASPECT_RATIOS.map(aspectRatio => (
+            <button key={aspectRatio} onClick={() => update({ aspectRatio })} disabled={disabled} className={segmentClass(settings.aspectRatio === aspectRatio)} aria-pressed={settings.aspectRatio === aspectRatio}>
+              {aspectRatio === '16:9' ? t.landscape : t.portrait}
+            </button>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <span className="text-sm font-medium text-gray-700">{t.numberOfVideos}</span>
+        <div className="flex space-x-1 bg-gray-100 p-1 rounded-lg">
+          {Array.from({ length: MAX_VIDEOS }, (_, i) => i + 1).map(count => (
+            <button key={count} onClick={() => update({ numberOfVideos: count })} disabled={disabled} className={`w-8 ${segmentClass(settings.numberOfVideos === count)}`} aria-pressed={settings.numberOfVideos === count}>{count}</button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label htmlFor="negative-prompt" className="text-sm font-medium text-gray-700 block mb-1">{t.negativePrompt}</label>
+        <input id="negative-prompt" type="text" value={settings.negativePrompt ?? ''} onChange={(e) => update({ negativePrompt: e.target.value })} disabled={disabled} placeholder={t.negativePromptPlaceholder} className="block w-full sm:text-sm bg-gray-50 border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 placeholder-gray-400 transition" />
+      </div>
+    </div>
+  );
+};
+
+export default VideoSettingsPanel;
@@ -0,0 +1,158 @@
+// A stand-in for the Gemini API, for trying the retry and rate limit handling without
+// a key or a bill. Point GEMINI_BASE_URL at it and each request takes the next step of
+// the script; once the script runs out, every request succeeds.
+//
+//   node scripts/fake-gemini-server.js --port 8787 --script 503,429:2s,network,ok
+//
+// Steps: `ok`, an HTTP status such as `503`, `429:<seconds>s` for a rate limit whose
+// RetryInfo asks for that delay, `network` to drop the connection, and
+// `accepted:<status>` to carry out the request, e.g. start a video job, and still
+// answer with that status.
+import http from 'node:http';
+import { pathToFileURL } from 'node:url';
+
+// A 1x1 transparent PNG.
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const STATUS_NAMES = { 400: 'INVALID_ARGUMENT', 403: 'PERMISSION_DENIED', 429: 'RESOURCE_EXHAUSTED', 500: 'INTERNAL', 503: 'UNAVAILABLE' };
+
+/** @param {string} step */
+export const parseStep = (step) => {
+  const [status, retryDelay] = step.trim().split(':');
+  if (status === 'ok' || status === 'network') return { kind: status };
+  const accepted = status === 'accepted';
+  const code = Number(accepted ? retryDelay : status);
+  if (!Number.isInteger(code) || code < 400 || code > 599) {
+    throw new Error(`Unknown script step "${step}".`);
+  }
+  return accepted ? { kind: 'accepted', status: code } : { kind: 'error', status: code, retryDelay };
+};
+
+/** @param {string} model */
+const responseFor = (model) => {
+  const isImageModel = model.includes('image');
+  const parts = isImageModel
+    ? [{ inlineData: { mimeType: 'image/png', data: PIXEL_PNG } }]
+    : [{ text: JSON.stringify(['A fake suggestion from the local server.']) }];
+  return {
+    candidates: [{ content: { role: 'model', parts }, finishReason: 'STOP' }],
+    usageMetadata: {
+      promptTokenCount: 10,
+      candidatesTokenCount: isImageModel ? 1290 : 12,
+      totalTokenCount: isImageModel ? 1300 : 22,
+      ...(isImageModel && { candidatesTokensDetails: [{ modality: 'IMAGE', tokenCount: 1290 }] }),
+    },
+  };
+};
+
+/**
+ * A finished Veo operation in the shape the API returns it.
+ * @param {string} name
+ * @param {string} baseUrl
+ */
+const videoOperationFor = (name, baseUrl) => ({
+  name,
+  done: true,
+  response: {
+    generateVideoResponse: {
+      generatedSamples: [{ video: { uri: `${baseUrl}/v1beta/files/${name.split('/').pop()}:download?alt=media` } }],
+    },
+  },
+});
+
+/** @param {{ status: number, retryDelay?: string }} step */
+const errorBodyFor = ({ status, retryDelay }) => ({
+  error: {
+    code: status,
+    message: `Fake ${status} from the local server.`,
+    status: STATUS_NAMES[status] ?? 'UNKNOWN',
+    ...(retryDelay && { details: [{ '@type': 'type.googleapis.com/google.rpc.RetryInfo', retryDelay }] }),
+  },
+});
+
+/**
+ * Starts the server. `requests` lists the path of every request received, in order,
+ * and `videoJobs` the name of every video operation started; `push` appends steps to
+ * the script.
+ * @param {{ port?: number, script?: string[] }} [options]
+ */
+export const startFakeGeminiServer = ({ port = 0, script = [] } = {}) => {
+  const steps = script.map(parseStep);
+  /** @type {string[]} */
+  const requests = [];
+  /** @type {string[]} */
+  const videoJobs = [];
+
+  // Carries out a request and returns the response to send.
+  /** @param {string} path @param {string} baseUrl */
+  const handle = (path, baseUrl) => {
+    const submit = path.match(/\/models\/([^/:]+):predictLongRunning$/);
+    if (submit) {
+      const name = `models/${submit[1]}/operations/${videoJobs.length + 1}`;
+      videoJobs.push(name);
+      return { status: 200, type: 'application/json', body: JSON.stringify(videoOperationFor(name, baseUrl)) };
+    }
+    const poll = path.match(/\/(models\/[^/:]+\/operations\/[^/:]+)$/);
+    if (poll && videoJobs.includes(poll[1])) {
+      return { status: 200, type: 'application/json', body: JSON.stringify(videoOperationFor(poll[1], baseUrl)) };
+    }
+    if (/\/files\/[^/:]+:download$/.test(path)) {
+      return { status: 200, type: 'video/mp4', body: Buffer.alloc(1024) };
+    }
+    const generate = path.match(/\/models\/([^/:]+):(generateContent|streamGenerateContent)$/);
+    if (!generate) {
+      return { status: 404, type: 'application/json', body: JSON.stringify({ error: { code: 404, message: `The fake server does not serve ${path}.`, status: 'NOT_FOUND' } }) };
+    }
+    const body = JSON.stringify(responseFor(generate[1]));
+    return generate[2] === 'streamGenerateContent'
+      ? { status: 200, type: 'text/event-stream', body: `data: ${body}\n\n` }
+      : { status: 200, type: 'application/json', body };
+  };
+
+  const server = http.createServer((req, res) => {
+    // Read the whole body first, as a real server would before answering.
+    req.resume();
+    req.on('end', () => {
+      const path = (req.url ?? '').split('?')[0];
+      requests.push(path);
+      const step = steps.shift() ?? { kind: 'ok' };
+      if (step.kind === 'network') {
+        req.socket.destroy();
+        return;
+      }
+      const response = step.kind === 'error' ? null : handle(path, `http://${req.headers.host}`);
+      if (!response || step.kind === 'accepted') {
+        res.writeHead(step.status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(errorBodyFor(step)));
+        return;
+      }
+      res.writeHead(response.status, { 'content-type': response.type });
+      res.end(response.body);
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, '127.0.0.1', () => {
+      const address = server.address();
+      resolve({
+        url: `http://127.0.0.1:${typeof address === 'object' && address ? address.port : port}`,
+        requests,
+        videoJobs,
+        /** @param {...string} more */
+        push: (...more) => { steps.push(...more.map(parseStep)); },
+        close: () => new Promise(done => { server.closeAllConnections(); server.close(() => done(undefined)); }),
+      });
+    });
+  });
+};
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? '').href) {
+  const argValue = (name) => {
+    const index = process.argv.indexOf(name);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+  };
+  const script = (argValue('--script') ?? '').split(',').filter(Boolean);
+  const server = await startFakeGeminiServer({ port: Number(argValue('--port') ?? 8787), script });
+  console.log(`Fake Gemini server listening on ${server.url}`);
+}
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { startFakeGeminiServer } from '../scripts/fake-gemini-server.js';
+
+type FakeServer = Awaited<ReturnType<typeof startFakeGeminiServer>>;
+
+let server: FakeServer;
+
+// The service reads its configuration when it is loaded, so each test loads a fresh copy
+// pointed at the fake server.
+const loadService = async (script: string[]) => {
+  server = await startFakeGeminiServer({ script });
+  vi.resetModules();
+  vi.stubEnv('GEMINI_BASE_URL', server.url);
+  vi.stubEnv('API_KEY', 'fake-key');
+  vi.stubEnv('GEMINI_REQUESTS_PER_MINUTE', '0');
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+  });
+  return import('./geminiService');
+};
+
+beforeEach(() => {
+  // No jitter, so backoff delays are zero unless the server asks for one.
+  vi.spyOn(Math, 'random').mockReturnValue(0);
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  await server?.close();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('sendRequest against the fake server', () => {
+  it('retries overloaded responses and dropped connections until one succeeds', async () => {
+    const { enhancePrompt } = await loadService(['503', 'network', '500']);
+    await expect(enhancePrompt('a cat', { count: 1 })).resolves.toEqual(['A fake suggestion from the local server.']);
+    expect(server.requests).toHaveLength(4);
+    expect(server.requests[0]).toMatch(/\/models\/gemini-2\.5-flash:generateContent$/);
+  });
+
+  it('gives up after four retries and marks the error as retried', async () => {
+    const { enhancePrompt } = await loadService(['503', '503', '503', '503', '503']);
+    await expect(enhancePrompt('a cat')).rejects.toMatchObject({ code: 'unknown', retried: true });
+    expect(server.requests).toHaveLength(5);
+  });
+
+  it('waits as long as the RetryInfo of a rate limit asks', async () => {
+    const { enhancePrompt } = await loadService(['429:1s']);
+    const startedAt = Date.now();
+    await expect(enhancePrompt('a cat', { count: 1 })).resolves.toHaveLength(1);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(1000);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('does not retry a request the server rejected', async () => {
+    const { enhancePrompt } = await loadService(['400']);
+    await expect(enhancePrompt('a cat')).rejects.toMatchObject({ retried: true });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('rejects an empty prompt without sending it', async () => {
+    const { enhancePrompt } = await loadService([]);
+    await expect(enhancePrompt('  ')).rejects.toMatchObject({ name: 'GenerationError', code: 'emptyPrompt' });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('does not send a request aborted before its turn', async () => {
+    const { enhancePrompt } = await loadService([]);
+    const controller = new AbortController();
+    const suggestions = enhancePrompt('a cat', { signal: controller.signal });
+    controller.abort();
+    await expect(suggestions).rejects.toMatchObject({ name: 'AbortError' });
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('returns the generated image', async () => {
+    const { generateOrEditImage } = await loadService(['503']);
+    const [image] = await generateOrEditImage('a cat', null, [], null, { model: 'gemini-2.5-flash-image' });
+    expect(image.mimeType).toBe('image/png');
+    expect(server.requests).toHaveLength(2);
+  });
+});
+
+describe('video submission against the fake server', () => {
+  it('does not submit again when the server started the job but answered 503', async () => {
+    const { generateVideo } = await loadService(['accepted:503']);
+    const onProgress = vi.fn();
+    await expect(generateVideo('a wave', null, onProgress)).rejects.toMatchObject({ code: 'unknown', retried: false });
+    expect(server.videoJobs).toHaveLength(1);
+    expect(server.requests).toHaveLength(1);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ type: 'failed' }));
+  });
+
+  it('submits again after a rate limit and downloads the video', async () => {
+    const { generateVideo } = await loadService(['429:0s']);
+    await expect(generateVideo('a wave', null, vi.fn())).resolves.toEqual([expect.stringMatching(/^blob:/)]);
+    expect(server.videoJobs).toHaveLength(1);
+    expect(server.requests.filter(path => path.endsWith(':predictLongRunning'))).toHaveLength(2);
+  });
+});
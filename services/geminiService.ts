@@ -1,59 +1,252 @@
 import {
+  ApiError,
   GoogleGenAI,
   Modality,
   GenerateContentResponse,
+  GenerateVideosOperation,
+  MediaModality,
+  Type,
 } from "@google/genai";
-import type { Part } from "@google/genai";
+import type { Candidate, GenerateContentResponseUsageMetadata, Part, SafetyRating } from "@google/genai";
+import type { EnhancementOptions, EnhancementStyle, GenerationProvider, ImageChatSession, ImageGenerationOptions, ImageStreamListener, ImageStreamPart, InlineImage, VideoGenerationOptions, VideoJobControl, VideoProgressListener } from "./generationProvider";
+import { GenerationError, markRetried, toGenerationError } from "./generationError";
+import { beginRequestWait } from "./requestActivity";
+import type { RequestKind } from "./requestActivity";
+import { recordUsage } from "./usageTracker";
+import { abortableDelay, isAbortError, throwIfAborted } from "../utils/abort";
 
-const API_KEY = process.env.API_KEY;
+let client: GoogleGenAI | null = null;
 
-if (!API_KEY) {
-  // This is a soft check; Veo will use a dynamically injected key.
-  console.warn("API_KEY environment variable not set at startup.");
+// GEMINI_BASE_URL points the SDK at another endpoint, e.g. a local fake server.
+const baseUrl = process.env.GEMINI_BASE_URL?.trim() || undefined;
+
+const createClient = (apiKey: string | undefined) =>
+  new GoogleGenAI({ apiKey: apiKey!, ...(baseUrl && { httpOptions: { baseUrl } }) });
+
+// This instance is used for non-Veo models (image editing, text generation).
+// It is created on first use so that selecting another provider never needs a key.
+const getClient = (): GoogleGenAI => {
+  if (!client) {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      // This is a soft check; Veo will use a dynamically injected key.
+      console.warn("API_KEY environment variable not set at startup.");
+    }
+    client = createClient(apiKey);
+  }
+  return client;
+};
+
+// Every call to the API goes through `sendRequest`, which keeps to a per-minute
+// request budget and retries rate limits, overloaded servers and dropped connections.
+const MAX_REQUEST_RETRIES = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 30000;
+const RATE_LIMIT_WINDOW_MS = 60000;
+// GEMINI_REQUESTS_PER_MINUTE sets the budget; 0 turns the limiter off.
+const parsedRequestsPerMinute = Math.floor(Number(process.env.GEMINI_REQUESTS_PER_MINUTE?.trim() || NaN));
+const requestsPerMinute = parsedRequestsPerMinute >= 0 ? parsedRequestsPerMinute : 60;
+
+// Send times within the last window, oldest first.
+let recentRequests: number[] = [];
+
+const waitForRequestSlot = async (kind: RequestKind, signal?: AbortSignal) => {
+  if (requestsPerMinute === 0) return;
+  while (true) {
+    const now = Date.now();
+    recentRequests = recentRequests.filter(sentAt => now - sentAt < RATE_LIMIT_WINDOW_MS);
+    if (recentRequests.length < requestsPerMinute) {
+      recentRequests.push(now);
+      return;
+    }
+    const resumeAt = recentRequests[0] + RATE_LIMIT_WINDOW_MS;
+    const endWait = beginRequestWait({ kind, reason: 'rateLimit', retry: 0, maxRetries: MAX_REQUEST_RETRIES, status: null, resumeAt });
+    try {
+      await abortableDelay(resumeAt - now, signal);
+    } finally {
+      endWait();
+    }
+  }
+};
+
+// Which failures `sendRequest` retries by itself.
+interface RetryPolicy {
+  statuses: ReadonlySet<number>;
+  network: boolean;
 }
 
-// This instance is used for non-Veo models (image editing, text generation)
-const ai = new GoogleGenAI({ apiKey: API_KEY! });
+const TRANSIENT_FAILURES: RetryPolicy = { statuses: new Set([429, 500, 502, 503, 504]), network: true };
+// A video submission that failed with a 5xx or a dropped connection may still have
+// started a billed job, so only a rate limit, which is refused before any work starts,
+// is retried. Anything else goes back to the job queue, which decides whether to submit again.
+const SUBMISSION_FAILURES: RetryPolicy = { statuses: new Set([429]), network: false };
+
+// The HTTP status of a failure worth retrying, null for a network failure, or
+// undefined when retrying would not help.
+const retryableStatusOf = (error: unknown, policy: RetryPolicy = TRANSIENT_FAILURES): number | null | undefined => {
+  if (error instanceof ApiError) {
+    return policy.statuses.has(error.status) ? error.status : undefined;
+  }
+  return policy.network && toGenerationError(error).code === 'network' ? null : undefined;
+};
+
+// The API names a delay in the RetryInfo of a 429 body, e.g. "retryDelay": "37s".
+const serverRetryDelayMs = (error: unknown): number | null => {
+  const message = error instanceof Error ? error.message : '';
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/) ?? message.match(/retry in (\d+(?:\.\d+)?)\s*s/i);
+  return match ? Math.ceil(Number(match[1]) * 1000) : null;
+};
+
+// Exponential backoff with full jitter, never sooner than the server asked for.
+const retryDelayMs = (error: unknown, retry: number) => {
+  const backoff = Math.random() * Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (retry - 1));
+  return Math.max(backoff, serverRetryDelayMs(error) ?? 0);
+};
+
+// Whatever this gives up on is marked as retried, so the job queue does not start the
+// whole request again and multiply the attempts. Transient failures the policy leaves
+// alone are not marked, so the queue can still retry them.
+const sendRequest = async <T>(kind: RequestKind, request: () => Promise<T>, signal?: AbortSignal, policy = TRANSIENT_FAILURES): Promise<T> => {
+  for (let retry = 1; ; retry++) {
+    await waitForRequestSlot(kind, signal);
+    throwIfAborted(signal);
+    try {
+      return await request();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      const status = retryableStatusOf(error, policy);
+      if (status === undefined && retryableStatusOf(error) !== undefined) throw toGeminiError(error);
+      if (status === undefined || retry > MAX_REQUEST_RETRIES) throw markRetried(toGeminiError(error));
+      const delay = retryDelayMs(error, retry);
+      console.warn(`Retrying ${kind} request in ${Math.round(delay)} ms (retry ${retry} of ${MAX_REQUEST_RETRIES}):`, error);
+      const endWait = beginRequestWait({ kind, reason: 'retry', retry, maxRetries: MAX_REQUEST_RETRIES, status, resumeAt: Date.now() + delay });
+      try {
+        await abortableDelay(delay, signal);
+      } finally {
+        endWait();
+      }
+    }
+  }
+};
 
 const textModel = 'gemini-2.5-flash';
 const imageModel = 'gemini-2.5-flash-image';
+// IMAGE_MODELS (comma-separated) replaces the image models offered in the studio.
+const configuredImageModels = (process.env.IMAGE_MODELS ?? '').split(',').map(model => model.trim()).filter(Boolean);
+const imageModelChoices = configuredImageModels.length > 0 ? configuredImageModels : [imageModel, 'gemini-3-pro-image-preview'];
 const videoModel = 'veo-3.1-fast-generate-preview';
+const videoModelChoices = [videoModel, 'veo-3.1-generate-preview'];
+// Veo 3.1 renders 8-second clips, which is what a generated video is billed for.
+const VEO_VIDEO_SECONDS = 8;
+
+// Operation names look like `models/<model>/operations/<id>`, which also tells the
+// model of a job resumed after a reload.
+const videoModelOf = (operationName: string | undefined) =>
+  operationName?.match(/^models\/([^/]+)\//)?.[1] ?? videoModel;
+
+// Image output tokens are counted apart from text, as image models charge more for them.
+const recordResponseUsage = (model: string, usage: GenerateContentResponseUsageMetadata | undefined, images: number) => {
+  const imageTokens = (usage?.candidatesTokensDetails ?? [])
+    .filter(detail => detail.modality === MediaModality.IMAGE)
+    .reduce((sum, detail) => sum + (detail.tokenCount ?? 0), 0);
+  recordUsage({
+    model,
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: (usage?.candidatesTokenCount ?? 0) - imageTokens + (usage?.thoughtsTokenCount ?? 0),
+    imageTokens,
+    images,
+  });
+};
+
+// Maps what the SDK throws onto error codes the UI can act on.
+const toGeminiError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  // Veo reports a key that is missing or lacks access as a missing entity.
+  if (message.includes('Requested entity was not found') || /API_KEY_INVALID|API key not valid/i.test(message)
+      || (error instanceof ApiError && (error.status === 401 || error.status === 403))) {
+    return new GenerationError('invalidKey', 'API key not found or invalid. Please select a valid API key and try again.', { cause: error, detail: message });
+  }
+  if ((error instanceof ApiError && error.status === 429) || /RESOURCE_EXHAUSTED/.test(message)) {
+    return new GenerationError('quota', message, { cause: error });
+  }
+  return toGenerationError(error);
+};
+
+// Finish and block reasons that mean the content was filtered.
+const SAFETY_REASONS = new Set(['SAFETY', 'IMAGE_SAFETY', 'PROHIBITED_CONTENT', 'IMAGE_PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII']);
 
-export const enhancePrompt = async (prompt: string): Promise<string> => {
+const enhanceInstructions: Record<'image' | 'video', string> = {
+  image: `You are a creative assistant specializing in writing prompts for AI image generation and editing. Rewrite and enrich the user's prompt while preserving its original intent.`,
+  video: `You are a creative assistant specializing in writing prompts for AI video generation. Rewrite the user's prompt as a description of a short clip: the subject and its action, camera movement and framing, pacing, lighting and atmosphere, while preserving the original intent.`,
+};
+
+const enhancementStyleGuides: Record<EnhancementStyle, string> = {
+  photoreal: `Aim for a photorealistic result: describe the camera, lens, lighting, materials and textures as a photographer would.`,
+  illustration: `Aim for an illustrated look: name an art medium or illustration style and describe the line work, color palette and composition.`,
+  cinematic: `Aim for a cinematic look: describe the shot type, camera motion, lens, color grading and mood as a film director would.`,
+  concise: `Keep it short: make the prompt clearer and more specific in at most two sentences, without adding flourishes.`,
+};
+
+const DEFAULT_ENHANCEMENT_COUNT = 3;
+
+export const enhancePrompt = async (prompt: string, options: EnhancementOptions = {}): Promise<string[]> => {
   if (!prompt.trim()) {
-    return Promise.reject("Prompt cannot be empty.");
+    return Promise.reject(new GenerationError('emptyPrompt', "Prompt cannot be empty."));
   }
+  const target = options.target ?? 'image';
+  const style = options.style ?? (target === 'video' ? 'cinematic' : 'photoreal');
+  const count = options.count ?? DEFAULT_ENHANCEMENT_COUNT;
   try {
-    const response = await ai.models.generateContent({
+    const response = await sendRequest('enhance', () => getClient().models.generateContent({
       model: textModel,
       contents: prompt,
       config: {
-        systemInstruction: `You are a creative assistant specializing in writing prompts for AI image editing. Rewrite and enrich the user's prompt to be more descriptive and artistic. Focus on details like style, lighting, composition, and mood, while preserving the original intent. Your response must be only the rewritten prompt text, without any preamble or explanation.`,
+        systemInstruction: `${enhanceInstructions[target]} ${enhancementStyleGuides[style]} Write ${count} distinct alternatives. Respond with a JSON array of strings, each string being only a rewritten prompt, without any preamble or explanation.`,
+        responseMimeType: 'application/json',
+        responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+        abortSignal: options.signal,
       },
-    });
-    
+    }), options.signal);
+    recordResponseUsage(textModel, response.usageMetadata, 0);
+
     if (!response.text) {
-        throw new Error("The API returned an empty enhancement.");
+        throw new GenerationError('emptyResponse', "The API returned an empty enhancement.");
+    }
+
+    const parsed: unknown = JSON.parse(response.text);
+    const suggestions = (Array.isArray(parsed) ? parsed : [])
+      .filter((item): item is string => typeof item === 'string')
+      .map(item => item.trim())
+      .filter(Boolean);
+    if (suggestions.length === 0) {
+        throw new GenerationError('emptyResponse', "The API returned no usable suggestions.");
     }
 
-    return response.text;
+    return suggestions.slice(0, count);
   } catch (error) {
+    if (isAbortError(error)) throw error;
     console.error("Error enhancing prompt with Gemini:", error);
-    if (error instanceof Error) {
-        return Promise.reject(`Failed to enhance prompt: ${error.message}`);
-    }
-    return Promise.reject("An unknown error occurred while enhancing the prompt.");
+    return Promise.reject(toGeminiError(error));
   }
 };
 
 
-export const generateOrEditImage = async (
+// Categories rated above LOW, e.g. 'HARASSMENT'.
+const safetyCategoriesOf = (ratings: SafetyRating[] | undefined): string[] =>
+  (ratings ?? [])
+    .filter(rating => rating.blocked || (rating.probability !== 'NEGLIGIBLE' && rating.probability !== 'LOW'))
+    .flatMap(rating => rating.category ? [rating.category.replace('HARM_CATEGORY_', '')] : []);
+
+// The model expects the mask right after the base image, then the references, then the prompt.
+const buildImageParts = (
   prompt: string,
-  baseImage: { base64Data: string; mimeType: string } | null,
-  referenceImages: { base64Data: string; mimeType: string }[] = [],
-  maskImage: { base64Data: string; mimeType: string } | null
-): Promise<string> => {
-  try {
+  baseImage: InlineImage | null,
+  referenceImages: InlineImage[],
+  maskImage: InlineImage | null
+): Part[] => {
     const parts: Part[] = [];
 
     if (baseImage) {
@@ -66,7 +259,6 @@ export const generateOrEditImage = async (
     }
     
     // A mask only makes sense with a base image.
-    // The model expects the mask to be provided right after the original image.
     if (maskImage && baseImage) {
         parts.push({
             inlineData: {
@@ -86,36 +278,58 @@ export const generateOrEditImage = async (
     });
       
     parts.push({ text: prompt });
+    return parts;
+};
+
+const throwIfPromptBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new GenerationError('safety', `Request was blocked: ${blockReason}. Please modify your prompt.`, {
+            detail: blockReason,
+            safetyCategories: safetyCategoriesOf(response.promptFeedback?.safetyRatings),
+        });
+    }
+};
 
-    const response: GenerateContentResponse = await ai.models.generateContent({
-      model: imageModel,
+const throwIfCandidateBlocked = (candidate: Candidate) => {
+    if (candidate.finishReason && SAFETY_REASONS.has(candidate.finishReason)) {
+        const safetyCategories = safetyCategoriesOf(candidate.safetyRatings);
+        const message = `The request was blocked for safety reasons${safetyCategories.length > 0 ? `: ${safetyCategories.join(', ')}` : ''}. Please adjust your prompt.`;
+        throw new GenerationError('safety', message, { detail: candidate.finishReason, safetyCategories });
+    }
+};
+
+const generateSingleImage = async (
+  prompt: string,
+  baseImage: InlineImage | null,
+  referenceImages: InlineImage[],
+  maskImage: InlineImage | null,
+  options: ImageGenerationOptions
+): Promise<InlineImage> => {
+  const model = options.model ?? imageModel;
+  try {
+    const response: GenerateContentResponse = await sendRequest('image', () => getClient().models.generateContent({
+      model,
       contents: {
-        parts: parts,
+        parts: buildImageParts(prompt, baseImage, referenceImages, maskImage),
       },
       config: {
         responseModalities: [Modality.IMAGE],
+        ...(options.aspectRatio && { imageConfig: { aspectRatio: options.aspectRatio } }),
       },
-    });
+    }));
+    recordResponseUsage(model, response.usageMetadata, response.candidates?.[0]?.content?.parts?.some(part => part.inlineData?.data) ? 1 : 0);
 
-    if (response.promptFeedback?.blockReason) {
-        throw new Error(`Request was blocked: ${response.promptFeedback.blockReason}. Please modify your prompt.`);
-    }
+    throwIfPromptBlocked(response);
 
     if (!response.candidates || response.candidates.length === 0) {
-        throw new Error("The API returned no content, which may be due to safety filters or an invalid prompt.");
+        throw new GenerationError('emptyResponse', "The API returned no content, which may be due to safety filters or an invalid prompt.");
     }
 
     const candidate = response.candidates[0];
 
     if (!candidate.content || !candidate.content.parts || candidate.content.parts.length === 0) {
-        if (candidate.finishReason === 'SAFETY') {
-            const safetyIssues = candidate.safetyRatings
-                ?.filter(rating => rating.probability !== 'NEGLIGIBLE' && rating.probability !== 'LOW')
-                .map(rating => rating.category.replace('HARM_CATEGORY_', ''))
-                .join(', ');
-            const message = `The request was blocked for safety reasons${safetyIssues ? `: ${safetyIssues}` : ''}. Please adjust your prompt.`;
-            throw new Error(message);
-        }
+        throwIfCandidateBlocked(candidate);
         
         let errorMessage = "Image generation failed.";
         if (candidate.finishReason && candidate.finishReason !== 'STOP') {
@@ -124,43 +338,300 @@ export const generateOrEditImage = async (
         if (candidate.finishMessage) {
             errorMessage += ` Details: ${candidate.finishMessage}`;
         }
-        throw new Error(errorMessage);
+        throw new GenerationError('emptyResponse', errorMessage, { detail: candidate.finishMessage ?? candidate.finishReason });
     }
 
     const imagePart = candidate.content.parts.find(part => part.inlineData?.data);
     if (imagePart?.inlineData?.data) {
-        return imagePart.inlineData.data;
+        return { base64Data: imagePart.inlineData.data, mimeType: imagePart.inlineData.mimeType ?? 'image/png' };
     }
 
     const textPart = candidate.content.parts.find(part => part.text);
     if (textPart?.text) {
-        throw new Error(`API returned text instead of an image: "${textPart.text}"`);
+        throw new GenerationError('textInsteadOfImage', `API returned text instead of an image: "${textPart.text}"`, { detail: textPart.text });
     }
 
-    throw new Error("No image data found in the API response.");
+    throw new GenerationError('emptyResponse', "No image data found in the API response.");
 
   } catch (error) {
     console.error("Error processing image with Gemini:", error);
-    if (error instanceof Error) {
-        return Promise.reject(error.message);
+    return Promise.reject(toGeminiError(error));
+  }
+};
+
+// Each image takes the text written since the previous one as its caption; text after
+// the last image is added to that image's caption.
+const captionImages = (parts: ImageStreamPart[]): InlineImage[] => {
+  const images: InlineImage[] = [];
+  let pendingText = '';
+  for (const part of parts) {
+    if (part.type === 'text') {
+      pendingText += part.text;
+    } else {
+      images.push({ ...part.image, caption: pendingText.trim() || undefined });
+      pendingText = '';
     }
-    return Promise.reject("An unknown error occurred while communicating with the Gemini API.");
   }
+  const last = images[images.length - 1];
+  if (last && pendingText.trim()) {
+    last.caption = [last.caption, pendingText.trim()].filter(Boolean).join('\n\n');
+  }
+  return images;
 };
 
+// Collects a streamed [IMAGE, TEXT] response, reporting every chunk.
+const readImageStream = async (stream: AsyncGenerator<GenerateContentResponse>, onStream?: ImageStreamListener) => {
+  let parts: ImageStreamPart[] = [];
+  let lastCandidate: Candidate | null = null;
+  // Sent with the last chunk.
+  let usage: GenerateContentResponseUsageMetadata | undefined;
+  for await (const chunk of stream) {
+    usage = chunk.usageMetadata ?? usage;
+    throwIfPromptBlocked(chunk);
+    const candidate = chunk.candidates?.[0];
+    if (!candidate) continue;
+    lastCandidate = candidate;
+    for (const part of candidate.content?.parts ?? []) {
+      const previous = parts[parts.length - 1];
+      if (part.inlineData?.data) {
+        parts = [...parts, { type: 'image', image: { base64Data: part.inlineData.data, mimeType: part.inlineData.mimeType ?? 'image/png' } }];
+      } else if (part.text && !part.thought) {
+        parts = previous?.type === 'text'
+          ? [...parts.slice(0, -1), { type: 'text', text: previous.text + part.text }]
+          : [...parts, { type: 'text', text: part.text }];
+      }
+    }
+    onStream?.(parts);
+  }
+  return { parts, lastCandidate, usage };
+};
+
+// Requests [IMAGE, TEXT] output and reports the response as it streams in. Unlike the
+// image-only mode, text is expected, and one response may hold several images.
+const streamImagesWithText = async (
+  prompt: string,
+  baseImage: InlineImage | null,
+  referenceImages: InlineImage[],
+  maskImage: InlineImage | null,
+  options: ImageGenerationOptions,
+  onStream?: ImageStreamListener
+): Promise<InlineImage[]> => {
+  const model = options.model ?? imageModel;
+  try {
+    const stream = await sendRequest('image', () => getClient().models.generateContentStream({
+      model,
+      contents: {
+        parts: buildImageParts(prompt, baseImage, referenceImages, maskImage),
+      },
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+        ...(options.aspectRatio && { imageConfig: { aspectRatio: options.aspectRatio } }),
+      },
+    }));
+
+    const { parts, lastCandidate, usage } = await readImageStream(stream, onStream);
+    const images = captionImages(parts);
+    recordResponseUsage(model, usage, images.length);
+    if (images.length > 0) {
+      return images;
+    }
+    if (lastCandidate) {
+      throwIfCandidateBlocked(lastCandidate);
+    }
+    const text = parts.map(part => part.type === 'text' ? part.text : '').join('').trim();
+    if (text) {
+      throw new GenerationError('textInsteadOfImage', `API returned text instead of an image: "${text}"`, { detail: text });
+    }
+    throw new GenerationError('emptyResponse', "No image data found in the API response.", { detail: lastCandidate?.finishMessage ?? lastCandidate?.finishReason });
+  } catch (error) {
+    console.error("Error streaming image and text with Gemini:", error);
+    return Promise.reject(toGeminiError(error));
+  }
+};
+
+// The image model returns one image per call, so variations are requested as parallel calls.
+// Partial failures are tolerated; the request only fails if every variation failed.
+export const generateOrEditImage = async (
+  prompt: string,
+  baseImage: InlineImage | null,
+  referenceImages: InlineImage[] = [],
+  maskImage: InlineImage | null,
+  options: ImageGenerationOptions = {},
+  onStream?: ImageStreamListener
+): Promise<InlineImage[]> => {
+  if (options.includeText) {
+    return streamImagesWithText(prompt, baseImage, referenceImages, maskImage, options, onStream);
+  }
+
+  const count = Math.max(1, options.numberOfImages ?? 1);
+  const results = await Promise.allSettled(
+    Array.from({ length: count }, () => generateSingleImage(prompt, baseImage, referenceImages, maskImage, options))
+  );
+
+  const images = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+  const failures = results.flatMap(result => result.status === 'rejected' ? [result.reason] : []);
+  if (images.length === 0) {
+    return Promise.reject(failures[0]);
+  }
+  if (failures.length > 0) {
+    console.warn(`${failures.length} of ${count} image variations failed:`, failures);
+  }
+  return images;
+};
+
+
+// A Gemini chat keeps the earlier turns, so follow-up instructions such as "now add a
+// hat" apply to the image the model returned last. Only the first turn needs images.
+export const startImageChat = (options: ImageGenerationOptions = {}): ImageChatSession => {
+  const model = options.model ?? imageModel;
+  const chat = getClient().chats.create({
+    model,
+    config: {
+      responseModalities: [Modality.IMAGE, Modality.TEXT],
+      ...(options.aspectRatio && { imageConfig: { aspectRatio: options.aspectRatio } }),
+    },
+  });
+
+  const send: ImageChatSession['send'] = async (prompt, images, onStream) => {
+    try {
+      const message: Part[] = [
+        ...images.map(image => ({ inlineData: { data: image.base64Data, mimeType: image.mimeType } })),
+        { text: prompt },
+      ];
+      // A failed turn is left out of the chat history, so sending it again is safe.
+      const stream = await sendRequest('image', () => chat.sendMessageStream({ message }));
+      const { parts, lastCandidate, usage } = await readImageStream(stream, onStream);
+      // Every turn resends the earlier ones, so input tokens grow as the conversation does.
+      recordResponseUsage(model, usage, parts.filter(part => part.type === 'image').length);
+      // A reply without an image is fine here, e.g. when the model asks a question.
+      if (parts.length > 0) {
+        return parts;
+      }
+      if (lastCandidate) {
+        throwIfCandidateBlocked(lastCandidate);
+      }
+      throw new GenerationError('emptyResponse', "The model sent an empty reply.", { detail: lastCandidate?.finishMessage ?? lastCandidate?.finishReason });
+    } catch (error) {
+      console.error("Error sending chat message to Gemini:", error);
+      return Promise.reject(toGeminiError(error));
+    }
+  };
+
+  return { send };
+};
+
+// Reads the response body in chunks so download progress can be reported.
+const downloadWithProgress = async (url: string, onBytes: (loaded: number, total: number | null) => void, signal?: AbortSignal): Promise<Blob> => {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+        throw new GenerationError('network', `Failed to download video: ${response.statusText}`, { detail: `${response.status} ${response.statusText}` });
+    }
+    const total = Number(response.headers.get('Content-Length')) || null;
+    if (!response.body) {
+        const blob = await response.blob();
+        onBytes(blob.size, total);
+        return blob;
+    }
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let loaded = 0;
+    onBytes(0, total);
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks.push(value);
+        loaded += value.length;
+        onBytes(loaded, total);
+    }
+    return new Blob(chunks, { type: response.headers.get('Content-Type') ?? 'video/mp4' });
+};
+
+// Polls a submitted Veo operation until it is done, then downloads every video.
+const pollVideoOperation = async (
+  ai: GoogleGenAI,
+  submitted: GenerateVideosOperation,
+  onProgress: VideoProgressListener,
+  startedAt: number,
+  signal?: AbortSignal,
+): Promise<string[]> => {
+    let operation = submitted;
+    let attempt = 0;
+    while (!operation.done) {
+        await abortableDelay(10000, signal); // Poll every 10 seconds
+        attempt++;
+        onProgress({ type: 'polling', attempt, elapsedMs: Date.now() - startedAt });
+        const current = operation;
+        operation = await sendRequest('videoStatus', () => ai.operations.getVideosOperation({ operation: current }), signal);
+    }
+    throwIfAborted(signal);
+
+    if (operation.error) {
+        const message = `Video generation failed: ${String(operation.error.message ?? JSON.stringify(operation.error))}`;
+        // google.rpc.Code 8 is RESOURCE_EXHAUSTED.
+        const code = operation.error.code === 8 ? 'quota' : toGeminiError(new Error(message)).code;
+        throw new GenerationError(code, message, { providerJobFailed: true });
+    }
+
+    const generatedVideos = operation.response?.generatedVideos ?? [];
+    if (generatedVideos.length > 0) {
+        recordUsage({
+            model: videoModelOf(operation.name),
+            videos: generatedVideos.length,
+            videoSeconds: generatedVideos.length * VEO_VIDEO_SECONDS,
+            jobId: operation.name,
+        });
+    }
+    const downloadLinks = generatedVideos
+        .map(generated => generated.video?.uri)
+        .filter((uri): uri is string => !!uri);
+    if (downloadLinks.length === 0) {
+        if (operation.response?.raiMediaFilteredCount) {
+            const reasons = operation.response.raiMediaFilteredReasons ?? [];
+            throw new GenerationError('safety', `The video was blocked for safety reasons${reasons.length > 0 ? `: ${reasons.join(' ')}` : ''}`, { detail: reasons.join(' ') || null, providerJobFailed: true });
+        }
+        throw new GenerationError('emptyResponse', "Video generation completed, but no download link was found.", { providerJobFailed: true });
+    }
+    onProgress({ type: 'done', elapsedMs: Date.now() - startedAt, videoCount: downloadLinks.length });
+
+    // One at a time, so the byte progress describes a single download.
+    const videoUrls: string[] = [];
+    for (const [videoIndex, downloadLink] of downloadLinks.entries()) {
+        const videoBlob = await downloadWithProgress(
+            `${downloadLink}&key=${process.env.API_KEY}`,
+            (loadedBytes, totalBytes) => onProgress({ type: 'downloading', videoIndex, videoCount: downloadLinks.length, loadedBytes, totalBytes }),
+            signal
+        );
+        videoUrls.push(URL.createObjectURL(videoBlob));
+    }
+    return videoUrls;
+};
+
+const failVideoJob = (error: unknown, onProgress: VideoProgressListener): Promise<never> => {
+    // Cancellation is not a failure; pass it through untouched.
+    if (isAbortError(error)) {
+        return Promise.reject(error);
+    }
+    console.error("Error generating video with Gemini:", error);
+
+    const generationError = toGeminiError(error);
+    onProgress({ type: 'failed', error: generationError });
+    return Promise.reject(generationError);
+};
 
 export const generateVideo = async (
   prompt: string,
-  startImage: { base64Data: string; mimeType: string } | null,
-  onProgress: (message: string) => void,
-): Promise<string> => {
+  startImage: InlineImage | null,
+  onProgress: VideoProgressListener,
+  options: VideoGenerationOptions = {},
+  control: VideoJobControl = {},
+): Promise<string[]> => {
     // Per Veo guidelines, create a new instance to get the latest selected key
-    const aiWithLatestKey = new GoogleGenAI({ apiKey: process.env.API_KEY! });
+    const aiWithLatestKey = createClient(process.env.API_KEY);
     
     try {
-        onProgress("Initiating video generation...");
-        let operation = await aiWithLatestKey.models.generateVideos({
-            model: videoModel,
+        throwIfAborted(control.signal);
+        const operation = await sendRequest('video', () => aiWithLatestKey.models.generateVideos({
+            model: options.model ?? videoModel,
             prompt: prompt,
             ...(startImage && { 
                 image: { 
@@ -169,66 +640,49 @@ export const generateVideo = async (
                 } 
             }),
             config: {
-                numberOfVideos: 1,
-                resolution: '720p',
-                aspectRatio: startImage ? undefined : '16:9'
+                numberOfVideos: options.numberOfVideos ?? 1,
+                resolution: options.resolution ?? '720p',
+                aspectRatio: options.aspectRatio ?? '16:9',
+                negativePrompt: options.negativePrompt?.trim() || undefined,
             }
-        });
-
-        const progressMessages = [
-            "Storyboarding your scene...",
-            "Rendering initial frames (this can take a minute)...",
-            "Adding details and effects...",
-            "This is a complex task, thanks for your patience!",
-            "Finalizing the video...",
-        ];
-        let messageIndex = 0;
-        
-        onProgress(progressMessages[messageIndex++]);
-        const progressInterval = setInterval(() => {
-             if (messageIndex < progressMessages.length) {
-                onProgress(progressMessages[messageIndex++]);
-             }
-        }, 15000); // Update message every 15s
-
-        while (!operation.done) {
-            await new Promise(resolve => setTimeout(resolve, 10000)); // Poll every 10 seconds
-            operation = await aiWithLatestKey.operations.getVideosOperation({ operation: operation });
+        }), control.signal, SUBMISSION_FAILURES);
+        const startedAt = Date.now();
+        if (operation.name) {
+            control.onSubmitted?.(operation.name);
         }
-        
-        clearInterval(progressInterval);
-        onProgress("Video processing complete!");
-
-        const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-        if (!downloadLink) {
-            throw new Error("Video generation completed, but no download link was found.");
-        }
-
-        onProgress("Downloading video...");
-        const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-        if (!response.ok) {
-            throw new Error(`Failed to download video: ${response.statusText}`);
-        }
-
-        const videoBlob = await response.blob();
-        return URL.createObjectURL(videoBlob);
-
+        onProgress({ type: 'submitted', resumed: false });
+        return await pollVideoOperation(aiWithLatestKey, operation, onProgress, startedAt, control.signal);
     } catch (error) {
-        console.error("Error generating video with Gemini:", error);
+        return failVideoJob(error, onProgress);
+    }
+};
 
-        // Convert error to a string to reliably search for the API key error message.
-        const errorString = (error instanceof Error) ? error.message : JSON.stringify(error);
+// Reattaches to an operation submitted earlier, e.g. before the page was reloaded.
+export const resumeVideo = async (
+  jobId: string,
+  onProgress: VideoProgressListener,
+  control: VideoJobControl = {},
+): Promise<string[]> => {
+    const aiWithLatestKey = createClient(process.env.API_KEY);
 
-        if (errorString.includes('Requested entity was not found')) {
-            return Promise.reject('API key not found or invalid. Please select a valid API key and try again.');
-        }
-        
-        // If it's a standard error and not the key error, reject with its message.
-        if (error instanceof Error) {
-            return Promise.reject(error.message);
-        }
-
-        // For other types of errors, reject with the stringified version.
-        return Promise.reject(errorString || "An unknown error occurred while generating the video.");
+    try {
+        const submitted = new GenerateVideosOperation();
+        submitted.name = jobId;
+        const operation = await sendRequest('videoStatus', () => aiWithLatestKey.operations.getVideosOperation({ operation: submitted }), control.signal);
+        onProgress({ type: 'submitted', resumed: true });
+        return await pollVideoOperation(aiWithLatestKey, operation, onProgress, control.startedAt ?? Date.now(), control.signal);
+    } catch (error) {
+        return failVideoJob(error, onProgress);
     }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: GenerationProvider = {
+  id: 'gemini',
+  requiresKeySelection: true,
+  models: { text: textModel, image: imageModel, imageChoices: imageModelChoices, video: videoModel, videoChoices: videoModelChoices },
+  enhancePrompt,
+  generateOrEditImage,
+  startImageChat,
+  generateVideo,
+  resumeVideo,
+};
@@ -0,0 +1,72 @@
+// Failures of a generation request, classified so the studios can explain them in
+// the user's language and offer the right next step. `message` stays in English for
+// logs and exported manifests; the UI translates by `code`.
+
+export type GenerationErrorCode =
+  | 'safety'
+  | 'quota'
+  | 'invalidKey'
+  | 'emptyResponse'
+  | 'textInsteadOfImage'
+  | 'network'
+  // The request had no prompt, so it was not sent.
+  | 'emptyPrompt'
+  | 'unknown';
+
+interface GenerationErrorDetails {
+  // Harm categories behind a safety block, without the `HARM_CATEGORY_` prefix.
+  safetyCategories?: string[];
+  // What the provider said: a block or finish reason, or the text returned instead of an image.
+  detail?: string | null;
+  // Set by a provider that already retried the request, or found retrying pointless.
+  retried?: boolean;
+  // Set when a job the provider accepted, such as a video operation, itself ended in
+  // failure, so reattaching to it would only report the same failure.
+  providerJobFailed?: boolean;
+  cause?: unknown;
+}
+
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  readonly safetyCategories: string[];
+  readonly detail: string | null;
+  readonly retried: boolean;
+  readonly providerJobFailed: boolean;
+
+  constructor(code: GenerationErrorCode, message: string, details: GenerationErrorDetails = {}) {
+    super(message, { cause: details.cause });
+    this.name = 'GenerationError';
+    this.code = code;
+    this.safetyCategories = details.safetyCategories ?? [];
+    this.detail = details.detail ?? null;
+    this.retried = details.retried ?? false;
+    this.providerJobFailed = details.providerJobFailed ?? false;
+  }
+}
+
+// The same error, marked as already handled by the provider's own retries.
+export const markRetried = (error: GenerationError): GenerationError =>
+  new GenerationError(error.code, error.message, { safetyCategories: error.safetyCategories, detail: error.detail, retried: true, providerJobFailed: error.providerJobFailed, cause: error.cause });
+
+// Whether the queue should run the job again by itself. Blocked content, a bad key and
+// a missing prompt fail the same way every time, and more attempts after a rate limit
+// only prolong it.
+// Errors the provider already retried are not retried on top of that.
+export const isRetryableGenerationError = (error: GenerationError) =>
+  !error.retried && !['safety', 'invalidKey', 'emptyPrompt', 'quota'].includes(error.code);
+
+// Browser messages, plus `fetch failed` from Node's fetch.
+const NETWORK_ERROR_PATTERN = /failed to fetch|fetch failed|networkerror|network request failed|load failed/i;
+
+// Wraps anything a request rejected with. Providers throw a GenerationError
+// themselves wherever they know more than this can guess.
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : 'An unexpected error occurred.';
+  if ((error instanceof TypeError && NETWORK_ERROR_PATTERN.test(message)) || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new GenerationError('network', message, { cause: error });
+  }
+  return new GenerationError('unknown', message, { cause: error });
+};
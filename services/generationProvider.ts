@@ -0,0 +1,191 @@
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import type { GenerationError } from './generationError';
+import { convertImageData } from '../utils/imagePreprocess';
+import type { OutputMimeType } from '../utils/imagePreprocess';
+
+export interface InlineImage {
+  base64Data: string;
+  mimeType: string;
+  // What the model wrote about a generated image, when text output was requested.
+  caption?: string;
+}
+
+export type ProviderId = 'gemini' | 'mock';
+
+export interface ProviderModels {
+  text: string;
+  image: string;
+  // Image models offered in the studio, including the default.
+  imageChoices: string[];
+  video: string;
+  // Video models offered in the settings panel, including the default.
+  videoChoices: string[];
+}
+
+export type ImageAspectRatio = '1:1' | '3:4' | '4:3' | '9:16' | '16:9' | '21:9';
+
+export interface ImageGenerationOptions {
+  // How many variations to request for the same prompt.
+  numberOfImages?: number;
+  // Defaults to the provider's `models.image`.
+  model?: string;
+  // Left to the model when unset, which usually follows the base image.
+  aspectRatio?: ImageAspectRatio;
+  // Results in another format are re-encoded in the browser.
+  outputMimeType?: OutputMimeType;
+  // Ask for text alongside the images and stream the response. The model decides how
+  // many images to return, so `numberOfImages` is ignored.
+  includeText?: boolean;
+}
+
+// The response so far when text output was requested, in the order the model wrote it.
+// Consecutive text is merged into one part.
+export type ImageStreamPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; image: InlineImage };
+
+export type ImageStreamListener = (parts: ImageStreamPart[]) => void;
+
+// A multi-turn editing conversation. The session remembers earlier turns, including
+// the images it returned, so each message can build on the last result.
+export interface ImageChatSession {
+  // Resolves with the reply's text and images in the order the model wrote them.
+  send: (prompt: string, images: InlineImage[], onStream?: ImageStreamListener) => Promise<ImageStreamPart[]>;
+}
+
+export type EnhancementStyle = 'photoreal' | 'illustration' | 'cinematic' | 'concise';
+
+export interface EnhancementOptions {
+  // Video prompts are rewritten with their own instruction, describing motion and camera work.
+  target?: 'image' | 'video';
+  // Defaults to 'photoreal' for images and 'cinematic' for videos.
+  style?: EnhancementStyle;
+  // How many alternative suggestions to ask for.
+  count?: number;
+  // Aborting before the request is sent means it is never sent, or billed.
+  signal?: AbortSignal;
+}
+
+export type VideoResolution = '720p' | '1080p';
+export type VideoAspectRatio = '16:9' | '9:16';
+
+export interface VideoGenerationOptions {
+  // Defaults to the provider's `models.video`.
+  model?: string;
+  resolution?: VideoResolution;
+  aspectRatio?: VideoAspectRatio;
+  // What the video should not contain.
+  negativePrompt?: string;
+  numberOfVideos?: number;
+}
+
+export interface VideoJobControl {
+  // Stops waiting for the job. The provider may still finish (and bill) it remotely.
+  signal?: AbortSignal;
+  // Called once the job is accepted, with an id `resumeVideo` can reattach to.
+  onSubmitted?: (jobId: string) => void;
+  // When a resumed job was first submitted, so elapsed times carry on from there.
+  startedAt?: number;
+}
+
+// Progress of a video job, in the order the events are emitted. Elapsed times are
+// measured from submission.
+export type VideoProgressEvent =
+  | { type: 'submitted'; resumed: boolean }
+  | { type: 'polling'; attempt: number; elapsedMs: number }
+  | { type: 'done'; elapsedMs: number; videoCount: number }
+  // `totalBytes` is null when the server does not send a length.
+  | { type: 'downloading'; videoIndex: number; videoCount: number; loadedBytes: number; totalBytes: number | null }
+  | { type: 'failed'; error: GenerationError };
+
+export type VideoProgressListener = (event: VideoProgressEvent) => void;
+
+// Requests reject with a GenerationError, or an AbortError when canceled.
+export interface GenerationProvider {
+  id: ProviderId;
+  // Whether video generation needs a key picked through the AI Studio dialog.
+  requiresKeySelection: boolean;
+  models: ProviderModels;
+  // Resolves with one or more rewritten prompts.
+  enhancePrompt: (prompt: string, options?: EnhancementOptions) => Promise<string[]>;
+  generateOrEditImage: (
+    prompt: string,
+    baseImage: InlineImage | null,
+    referenceImages: InlineImage[],
+    maskImage: InlineImage | null,
+    options?: ImageGenerationOptions,
+    // Called with every update of a streamed response.
+    onStream?: ImageStreamListener
+  ) => Promise<InlineImage[]>;
+  // Model and aspect ratio are fixed for the whole conversation.
+  startImageChat: (options?: ImageGenerationOptions) => ImageChatSession;
+  generateVideo: (
+    prompt: string,
+    startImage: InlineImage | null,
+    onProgress: VideoProgressListener,
+    options?: VideoGenerationOptions,
+    control?: VideoJobControl
+  ) => Promise<string[]>;
+  resumeVideo: (
+    jobId: string,
+    onProgress: VideoProgressListener,
+    control?: VideoJobControl
+  ) => Promise<string[]>;
+}
+
+const providers: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+const resolveProviderId = (): ProviderId => {
+  const configured = process.env.GENERATION_PROVIDER?.trim().toLowerCase();
+  if (!configured) {
+    return 'gemini';
+  }
+  if (configured in providers) {
+    return configured as ProviderId;
+  }
+  console.warn(`Unknown GENERATION_PROVIDER "${configured}", falling back to "gemini".`);
+  return 'gemini';
+};
+
+const activeProvider = providers[resolveProviderId()];
+
+export const getGenerationProvider = (): GenerationProvider => activeProvider;
+
+export const enhancePrompt: GenerationProvider['enhancePrompt'] = (prompt, options) =>
+  activeProvider.enhancePrompt(prompt, options);
+
+// The Gemini API has no output format setting, so conversion happens here for every provider.
+export const generateOrEditImage: GenerationProvider['generateOrEditImage'] = async (prompt, baseImage, referenceImages, maskImage, options, onStream) => {
+  const images = await activeProvider.generateOrEditImage(prompt, baseImage, referenceImages, maskImage, options, onStream);
+  const outputMimeType = options?.outputMimeType;
+  if (!outputMimeType) {
+    return images;
+  }
+  return Promise.all(images.map(async image => image.mimeType === outputMimeType ? image : { ...await convertImageData(image, outputMimeType), caption: image.caption }));
+};
+
+// Streamed parts arrive as the model sent them; the resolved reply is converted.
+export const startImageChat: GenerationProvider['startImageChat'] = (options) => {
+  const session = activeProvider.startImageChat(options);
+  const outputMimeType = options?.outputMimeType;
+  if (!outputMimeType) {
+    return session;
+  }
+  return {
+    send: async (prompt, images, onStream) => {
+      const parts = await session.send(prompt, images, onStream);
+      return Promise.all(parts.map(async (part): Promise<ImageStreamPart> =>
+        part.type === 'image' && part.image.mimeType !== outputMimeType ? { type: 'image', image: await convertImageData(part.image, outputMimeType) } : part));
+    },
+  };
+};
+
+export const generateVideo: GenerationProvider['generateVideo'] = (prompt, startImage, onProgress, options, control) =>
+  activeProvider.generateVideo(prompt, startImage, onProgress, options, control);
+
+export const resumeVideo: GenerationProvider['resumeVideo'] = (jobId, onProgress, control) =>
+  activeProvider.resumeVideo(jobId, onProgress, control);
@@ -0,0 +1,115 @@
+import type { ImageFile } from '../App';
+import type { ImageGenerationOptions, VideoGenerationOptions } from './generationProvider';
+
+const DB_NAME = 'gemini-creative-suite';
+const DB_VERSION = 1;
+const HISTORY_STORE = 'history';
+
+export interface StoredImage {
+  name: string;
+  mimeType: string;
+  dataUrl: string;
+}
+
+interface BaseHistoryEntry {
+  id: string;
+  prompt: string;
+  model: string;
+  createdAt: number;
+}
+
+export interface ImageHistoryEntry extends BaseHistoryEntry {
+  kind: 'image';
+  baseImage: StoredImage | null;
+  maskImage: StoredImage | null;
+  referenceImages: StoredImage[];
+  resultDataUrl: string;
+  // Missing on entries saved before image options were recorded.
+  options?: ImageGenerationOptions;
+}
+
+export interface VideoHistoryEntry extends BaseHistoryEntry {
+  kind: 'video';
+  startImage: StoredImage | null;
+  resultBlob: Blob;
+  // Missing on entries saved before video settings existed.
+  settings?: VideoGenerationOptions;
+}
+
+export type HistoryEntry = ImageHistoryEntry | VideoHistoryEntry;
+
+// Callers describe the entry; the store assigns the id and timestamp.
+export type NewHistoryEntry =
+  | Omit<ImageHistoryEntry, 'id' | 'createdAt'>
+  | Omit<VideoHistoryEntry, 'id' | 'createdAt'>;
+
+type HistoryListener = () => void;
+const listeners = new Set<HistoryListener>();
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser.'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex('createdAt', 'createdAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(HISTORY_STORE, mode);
+    const request = operation(transaction.objectStore(HISTORY_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+export const toStoredImage = (image: ImageFile): StoredImage => ({
+  name: image.file.name,
+  mimeType: image.file.type,
+  dataUrl: image.base64,
+});
+
+export const addHistoryEntry = async (entry: NewHistoryEntry): Promise<HistoryEntry> => {
+  const stored = { ...entry, id: crypto.randomUUID(), createdAt: Date.now() } as HistoryEntry;
+  await runRequest('readwrite', store => store.add(stored));
+  notifyListeners();
+  return stored;
+};
+
+// Newest first.
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await runRequest('readonly', store => store.index('createdAt').getAll() as IDBRequest<HistoryEntry[]>);
+  return entries.reverse();
+};
+
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+  notifyListeners();
+};
+
+export const subscribeToHistory = (listener: HistoryListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
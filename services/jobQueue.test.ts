@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const provider = vi.hoisted(() => ({
+  generateOrEditImage: vi.fn(),
+  generateVideo: vi.fn(),
+  resumeVideo: vi.fn(),
+}));
+
+vi.mock('./generationProvider', () => ({
+  ...provider,
+  getGenerationProvider: () => ({ id: 'mock', models: { image: 'mock-image', video: 'mock-video' } }),
+}));
+vi.mock('./historyStore', () => ({
+  addHistoryEntry: vi.fn(() => Promise.resolve()),
+  toStoredImage: vi.fn(),
+}));
+vi.mock('./videoJobStore', () => ({
+  saveVideoJob: vi.fn(),
+  removeVideoJob: vi.fn(),
+}));
+
+const IMAGE = { base64Data: 'AAAA', mimeType: 'image/png' };
+
+// The queue keeps its jobs in module state, so every test starts from a fresh copy,
+// along with the error class that copy checks against.
+const loadQueue = async () => {
+  vi.resetModules();
+  return { ...await import('./jobQueue'), GenerationError: (await import('./generationError')).GenerationError };
+};
+
+const enqueueImage = (queue: Awaited<ReturnType<typeof loadQueue>>) =>
+  queue.enqueueImageJob({ prompt: 'a cat', baseImage: null, maskImage: null, referenceImages: [], options: {}, parentNodeId: null });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  Object.values(provider).forEach(mock => mock.mockReset());
+  // Finished videos are fetched from their object URLs to be saved to history.
+  vi.stubGlobal('fetch', vi.fn(() => Promise.resolve(new Response(new Blob()))));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('image job retries', () => {
+  it('retries content failures up to MAX_ATTEMPTS', async () => {
+    const queue = await loadQueue();
+    const { GenerationError } = queue;
+    provider.generateOrEditImage.mockRejectedValue(new GenerationError('emptyResponse', 'No image.'));
+    const job = enqueueImage(queue);
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'failed', attempts: queue.MAX_ATTEMPTS });
+    expect(provider.generateOrEditImage).toHaveBeenCalledTimes(queue.MAX_ATTEMPTS);
+  });
+
+  it('succeeds on a later attempt', async () => {
+    const queue = await loadQueue();
+    const { GenerationError } = queue;
+    provider.generateOrEditImage
+      .mockRejectedValueOnce(new GenerationError('textInsteadOfImage', 'A description.'))
+      .mockResolvedValue([IMAGE]);
+    const job = enqueueImage(queue);
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'succeeded', attempts: 2, result: [IMAGE] });
+  });
+
+  it('does not repeat a request the provider already retried', async () => {
+    const queue = await loadQueue();
+    const { GenerationError } = queue;
+    provider.generateOrEditImage.mockRejectedValue(new GenerationError('unknown', 'Overloaded.', { retried: true }));
+    const job = enqueueImage(queue);
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(provider.generateOrEditImage).toHaveBeenCalledTimes(1);
+  });
+
+  it.each(['safety', 'invalidKey', 'quota'] as const)('does not retry %s errors', async (code) => {
+    const queue = await loadQueue();
+    const { GenerationError } = queue;
+    provider.generateOrEditImage.mockRejectedValue(new GenerationError(code, 'Nope.'));
+    const job = enqueueImage(queue);
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('cancels a job waiting to retry', async () => {
+    const queue = await loadQueue();
+    const { GenerationError } = queue;
+    provider.generateOrEditImage.mockRejectedValue(new GenerationError('emptyResponse', 'No image.'));
+    const job = enqueueImage(queue);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getQueueJob(job.id)?.status).toBe('retrying');
+    queue.cancelQueueJob(job.id);
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)?.status).toBe('canceled');
+    expect(provider.generateOrEditImage).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('video job retries', () => {
+  const enqueueVideo = (queue: Awaited<ReturnType<typeof loadQueue>>) =>
+    queue.enqueueVideoJob({ prompt: 'a wave', startImage: null, settings: {} });
+
+  // Submits a job the provider accepts, then fails with `error`.
+  const submitThenFail = (error: unknown) => async (_prompt: string, _image: unknown, _onProgress: unknown, _settings: unknown, control: { onSubmitted?: (id: string) => void }) => {
+    control.onSubmitted?.('operations/1');
+    throw error;
+  };
+
+  it('reattaches to a submitted job after a local failure', async () => {
+    const queue = await loadQueue();
+    provider.generateVideo.mockImplementation(submitThenFail(new queue.GenerationError('network', 'Failed to fetch')));
+    provider.resumeVideo.mockResolvedValue(['blob:video']);
+    const job = enqueueVideo(queue);
+    await vi.runAllTimersAsync();
+    expect(provider.generateVideo).toHaveBeenCalledTimes(1);
+    expect(provider.resumeVideo).toHaveBeenCalledWith('operations/1', expect.any(Function), expect.anything());
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'succeeded', result: ['blob:video'] });
+  });
+
+  it('submits again when the provider job itself failed', async () => {
+    const queue = await loadQueue();
+    provider.generateVideo
+      .mockImplementationOnce(submitThenFail(new queue.GenerationError('unknown', 'Video generation failed.', { providerJobFailed: true })))
+      .mockResolvedValue(['blob:video']);
+    const job = enqueueVideo(queue);
+    await vi.runAllTimersAsync();
+    expect(provider.resumeVideo).not.toHaveBeenCalled();
+    expect(provider.generateVideo).toHaveBeenCalledTimes(2);
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'succeeded', attempts: 2 });
+  });
+
+  it('forgets a failed provider job that is not retried', async () => {
+    const queue = await loadQueue();
+    const { removeVideoJob } = await import('./videoJobStore');
+    provider.resumeVideo.mockRejectedValue(new queue.GenerationError('safety', 'Blocked.', { providerJobFailed: true }));
+    const job = queue.enqueueVideoJob({ prompt: 'a wave', startImage: null, settings: {} }, { providerJobId: 'operations/2', submittedAt: 0 });
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'failed', attempts: 1, providerJobId: null });
+    expect(removeVideoJob).toHaveBeenCalledWith('operations/2');
+  });
+});
+
+describe('video jobs resumed without their start image', () => {
+  const resumeWithoutImage = (queue: Awaited<ReturnType<typeof loadQueue>>) =>
+    queue.enqueueVideoJob({ prompt: 'a wave', startImage: null, settings: {}, startImageLost: true }, { providerJobId: 'operations/3', submittedAt: 0 });
+
+  it('are not submitted again when the provider job failed', async () => {
+    const queue = await loadQueue();
+    provider.resumeVideo.mockRejectedValue(new queue.GenerationError('unknown', 'Video generation failed.', { providerJobFailed: true }));
+    const job = resumeWithoutImage(queue);
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(provider.generateVideo).not.toHaveBeenCalled();
+  });
+
+  it('cannot be retried by hand', async () => {
+    const queue = await loadQueue();
+    provider.resumeVideo.mockRejectedValue(new queue.GenerationError('safety', 'Blocked.', { providerJobFailed: true }));
+    const job = resumeWithoutImage(queue);
+    await vi.runAllTimersAsync();
+    expect(queue.canResubmitJob(queue.getQueueJob(job.id)!)).toBe(false);
+    queue.retryQueueJob(job.id);
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)?.status).toBe('failed');
+    expect(provider.generateVideo).not.toHaveBeenCalled();
+  });
+
+  it('are still reattached to after a local failure', async () => {
+    const queue = await loadQueue();
+    provider.resumeVideo
+      .mockRejectedValueOnce(new queue.GenerationError('network', 'Failed to fetch'))
+      .mockResolvedValue(['blob:video']);
+    const job = resumeWithoutImage(queue);
+    await vi.runAllTimersAsync();
+    expect(queue.getQueueJob(job.id)).toMatchObject({ status: 'succeeded', attempts: 2 });
+  });
+});
+
+describe('removing finished video jobs', () => {
+  it('revokes the object URLs of their videos', async () => {
+    const queue = await loadQueue();
+    const revokeObjectURL = vi.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    provider.generateVideo.mockResolvedValueOnce(['blob:first']).mockResolvedValueOnce(['blob:second', 'blob:third']);
+    const first = queue.enqueueVideoJob({ prompt: 'a wave', startImage: null, settings: {} });
+    queue.enqueueVideoJob({ prompt: 'a cliff', startImage: null, settings: {} });
+    await vi.runAllTimersAsync();
+    queue.removeQueueJob(first.id);
+    expect(revokeObjectURL.mock.calls).toEqual([['blob:first']]);
+    queue.clearFinishedQueueJobs('video');
+    expect(revokeObjectURL.mock.calls).toEqual([['blob:first'], ['blob:second'], ['blob:third']]);
+    expect(queue.listQueueJobs()).toEqual([]);
+    revokeObjectURL.mockRestore();
+  });
+});
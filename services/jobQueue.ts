@@ -0,0 +1,323 @@
+import type { ImageFile } from '../App';
+import { generateOrEditImage, generateVideo, resumeVideo, getGenerationProvider } from './generationProvider';
+import type { ImageGenerationOptions, ImageStreamPart, InlineImage, VideoGenerationOptions, VideoProgressEvent } from './generationProvider';
+import { addHistoryEntry, toStoredImage } from './historyStore';
+import { isRetryableGenerationError, toGenerationError } from './generationError';
+import type { GenerationError } from './generationError';
+import { removeVideoJob, saveVideoJob } from './videoJobStore';
+import { abortableDelay, isAbortError, raceWithAbort } from '../utils/abort';
+import { toInlineImage } from '../utils/imageFile';
+
+// Generation requests run here rather than inside the studios, so several can be in
+// flight while the user keeps composing, and they carry on when switching modes.
+// Queued jobs start in list order, at most `concurrency` at a time.
+
+export type QueueJobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'canceled';
+
+export interface ImageJobInput {
+  prompt: string;
+  baseImage: ImageFile | null;
+  maskImage: ImageFile | null;
+  referenceImages: ImageFile[];
+  options: ImageGenerationOptions;
+  // The edit tree node the base image came from, so results can be attached to it.
+  parentNodeId: string | null;
+}
+
+export interface VideoJobInput {
+  prompt: string;
+  startImage: ImageFile | null;
+  settings: VideoGenerationOptions;
+  // Set when a job resumed after a reload was submitted with a start image, which is
+  // not kept. Such a job can be reattached to but never submitted again.
+  startImageLost?: boolean;
+}
+
+interface BaseQueueJob {
+  id: string;
+  status: QueueJobStatus;
+  // Attempts started so far, including the current one.
+  attempts: number;
+  // The latest failure, kept while a retry is pending.
+  error: GenerationError | null;
+  createdAt: number;
+  finishedAt: number | null;
+  // When the next attempt starts while retrying.
+  retryAt: number | null;
+}
+
+export interface ImageQueueJob extends BaseQueueJob {
+  kind: 'image';
+  input: ImageJobInput;
+  result: InlineImage[] | null;
+  // The response so far, when text output was requested.
+  stream: ImageStreamPart[];
+}
+
+export interface VideoQueueJob extends BaseQueueJob {
+  kind: 'video';
+  input: VideoJobInput;
+  // Object URLs of the finished videos.
+  result: string[] | null;
+  // Set once the provider accepts the job.
+  providerJobId: string | null;
+  submittedAt: number | null;
+  // Events of the current attempt.
+  progress: VideoProgressEvent[];
+}
+
+export type QueueJob = ImageQueueJob | VideoQueueJob;
+
+export const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 2000;
+export const MAX_CONCURRENCY = 4;
+const parsedConcurrency = Math.floor(Number(process.env.QUEUE_CONCURRENCY));
+export const DEFAULT_CONCURRENCY = parsedConcurrency >= 1 ? Math.min(parsedConcurrency, MAX_CONCURRENCY) : 2;
+
+type QueueListener = () => void;
+const listeners = new Set<QueueListener>();
+const controllers = new Map<string, AbortController>();
+
+let jobs: QueueJob[] = [];
+let concurrency = DEFAULT_CONCURRENCY;
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+// Jobs are replaced rather than mutated so components can compare snapshots.
+const updateJob = (id: string, update: (job: QueueJob) => QueueJob) => {
+  jobs = jobs.map(job => job.id === id ? update(job) : job);
+  notifyListeners();
+};
+
+const findJob = (id: string) => jobs.find(job => job.id === id);
+
+export const isActiveJob = (job: QueueJob) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+// Finished videos are object URLs, released once the queue lets go of them.
+const releaseResult = (job: QueueJob) => {
+  if (job.kind === 'video') job.result?.forEach(url => URL.revokeObjectURL(url));
+};
+
+// Whether the job can be sent to the provider again with the input it was created with.
+export const canResubmitJob = (job: QueueJob) => job.kind !== 'video' || !job.input.startImageLost;
+
+const runImageJob = async (job: ImageQueueJob, signal: AbortSignal) => {
+  const { prompt, baseImage, maskImage, referenceImages, options } = job.input;
+  updateJob(job.id, current => current.kind === 'image' ? { ...current, stream: [] } : current);
+  const onStream = (stream: ImageStreamPart[]) => {
+    if (!signal.aborted) updateJob(job.id, current => current.kind === 'image' ? { ...current, stream } : current);
+  };
+  // The request itself cannot be interrupted; canceling only drops its result.
+  const images = await raceWithAbort(
+    generateOrEditImage(prompt, baseImage && toInlineImage(baseImage), referenceImages.map(toInlineImage), maskImage && toInlineImage(maskImage), options, onStream),
+    signal
+  );
+  updateJob(job.id, current => current.kind === 'image' ? { ...current, result: images } : current);
+  images.forEach(image => {
+    addHistoryEntry({
+      kind: 'image',
+      prompt,
+      model: options.model ?? getGenerationProvider().models.image,
+      baseImage: baseImage ? toStoredImage(baseImage) : null,
+      maskImage: maskImage ? toStoredImage(maskImage) : null,
+      referenceImages: referenceImages.map(toStoredImage),
+      resultDataUrl: `data:${image.mimeType};base64,${image.base64Data}`,
+      options,
+    }).catch(err => console.error("Error saving to history:", err));
+  });
+};
+
+const runVideoJob = async (job: VideoQueueJob, signal: AbortSignal) => {
+  const { prompt, startImage, settings } = job.input;
+  updateJob(job.id, current => current.kind === 'video' ? { ...current, progress: [] } : current);
+  const onProgress = (event: VideoProgressEvent) =>
+    updateJob(job.id, current => current.kind === 'video' ? { ...current, progress: [...current.progress, event] } : current);
+  // Every submission is billed, so once the provider has accepted the job a retry
+  // reattaches to it instead of submitting it again, unless the job itself failed.
+  const urls = job.providerJobId
+    ? await resumeVideo(job.providerJobId, onProgress, { signal, startedAt: job.submittedAt ?? undefined })
+    : await generateVideo(prompt, startImage && toInlineImage(startImage), onProgress, settings, {
+        signal,
+        onSubmitted: (providerJobId) => {
+          const submittedAt = Date.now();
+          updateJob(job.id, current => current.kind === 'video' ? { ...current, providerJobId, submittedAt } : current);
+          saveVideoJob({ id: providerJobId, providerId: getGenerationProvider().id, prompt, startedAt: submittedAt, settings, hasStartImage: !!startImage });
+        },
+      });
+  updateJob(job.id, current => current.kind === 'video' ? { ...current, result: urls } : current);
+  urls.forEach(url => {
+    fetch(url)
+      .then(response => response.blob())
+      .then(resultBlob => addHistoryEntry({
+        kind: 'video',
+        prompt,
+        model: settings.model ?? getGenerationProvider().models.video,
+        startImage: startImage ? toStoredImage(startImage) : null,
+        resultBlob,
+        settings,
+      }))
+      .catch(err => console.error("Error saving to history:", err));
+  });
+};
+
+const finishJob = (id: string, status: QueueJobStatus, error: GenerationError | null = null) => {
+  updateJob(id, current => ({ ...current, status, error, finishedAt: Date.now(), retryAt: null }));
+  // A video job that reached a final state no longer needs to be resumed after a reload.
+  const job = findJob(id);
+  if (job?.kind === 'video' && job.providerJobId) removeVideoJob(job.providerJobId);
+};
+
+const startJob = async (id: string) => {
+  const controller = new AbortController();
+  controllers.set(id, controller);
+  try {
+    for (let attempt = 1; ; attempt++) {
+      updateJob(id, current => ({ ...current, status: 'running', attempts: attempt, retryAt: null }));
+      const job = findJob(id);
+      if (!job) return;
+      try {
+        if (job.kind === 'image') await runImageJob(job, controller.signal);
+        else await runVideoJob(job, controller.signal);
+        finishJob(id, 'succeeded');
+        return;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        const error = toGenerationError(err);
+        // Only a job interrupted on this side (a dropped connection, a failed download) is
+        // reattached to. One that failed at the provider is forgotten, so a retry submits anew.
+        const failedJob = findJob(id);
+        if (failedJob?.kind === 'video' && failedJob.providerJobId && error.providerJobFailed) {
+          removeVideoJob(failedJob.providerJobId);
+          updateJob(id, current => current.kind === 'video' ? { ...current, providerJobId: null, submittedAt: null } : current);
+        }
+        // Reattaching is always possible; submitting again needs the original input.
+        const next = findJob(id);
+        const canRunAgain = !!next && ((next.kind === 'video' && !!next.providerJobId) || canResubmitJob(next));
+        if (attempt >= MAX_ATTEMPTS || !isRetryableGenerationError(error) || !canRunAgain) {
+          finishJob(id, 'failed', error);
+          return;
+        }
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        updateJob(id, current => ({ ...current, status: 'retrying', error, retryAt: Date.now() + delay }));
+        await abortableDelay(delay, controller.signal);
+      }
+    }
+  } catch {
+    // Only aborts get here, and only `cancelQueueJob` aborts.
+    finishJob(id, 'canceled');
+  } finally {
+    controllers.delete(id);
+    runNextJobs();
+  }
+};
+
+const runNextJobs = () => {
+  let running = jobs.filter(job => job.status === 'running' || job.status === 'retrying').length;
+  for (const job of jobs) {
+    if (running >= concurrency) break;
+    if (job.status === 'queued') {
+      running++;
+      startJob(job.id);
+    }
+  }
+};
+
+const createBaseJob = (): BaseQueueJob => ({
+  id: crypto.randomUUID(),
+  status: 'queued',
+  attempts: 0,
+  error: null,
+  createdAt: Date.now(),
+  finishedAt: null,
+  retryAt: null,
+});
+
+export const enqueueImageJob = (input: ImageJobInput): ImageQueueJob => {
+  const job: ImageQueueJob = { ...createBaseJob(), kind: 'image', input, result: null, stream: [] };
+  jobs = [...jobs, job];
+  notifyListeners();
+  runNextJobs();
+  return job;
+};
+
+// `resume` reattaches to a job the provider accepted before a reload instead of submitting a new one.
+export const enqueueVideoJob = (input: VideoJobInput, resume?: { providerJobId: string; submittedAt: number }): VideoQueueJob => {
+  const job: VideoQueueJob = {
+    ...createBaseJob(),
+    kind: 'video',
+    input,
+    result: null,
+    providerJobId: resume?.providerJobId ?? null,
+    submittedAt: resume?.submittedAt ?? null,
+    progress: [],
+  };
+  jobs = [...jobs, job];
+  notifyListeners();
+  runNextJobs();
+  return job;
+};
+
+export const cancelQueueJob = (id: string) => {
+  const job = findJob(id);
+  if (!job) return;
+  if (job.status === 'queued') {
+    finishJob(id, 'canceled');
+  } else {
+    controllers.get(id)?.abort();
+  }
+};
+
+// Queues a failed or canceled job again with the same input, as a fresh submission.
+export const retryQueueJob = (id: string) => {
+  const job = findJob(id);
+  if (!job || (job.status !== 'failed' && job.status !== 'canceled') || !canResubmitJob(job)) return;
+  updateJob(id, current => {
+    const reset = { ...current, ...createBaseJob(), id: current.id };
+    return reset.kind === 'video' ? { ...reset, result: null, providerJobId: null, submittedAt: null, progress: [] } : { ...reset, result: null, stream: [] };
+  });
+  runNextJobs();
+};
+
+// Swaps a queued job with the nearest queued job before (-1) or after (1) it.
+export const moveQueueJob = (id: string, direction: -1 | 1) => {
+  const index = jobs.findIndex(job => job.id === id);
+  if (index < 0 || jobs[index].status !== 'queued') return;
+  let target = index + direction;
+  while (target >= 0 && target < jobs.length && jobs[target].status !== 'queued') target += direction;
+  if (target < 0 || target >= jobs.length) return;
+  const reordered = [...jobs];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  jobs = reordered;
+  notifyListeners();
+};
+
+export const removeQueueJob = (id: string) => {
+  const job = findJob(id);
+  if (!job || isActiveJob(job)) return;
+  releaseResult(job);
+  jobs = jobs.filter(existing => existing.id !== id);
+  notifyListeners();
+};
+
+export const clearFinishedQueueJobs = (kind: QueueJob['kind']) => {
+  jobs.filter(job => job.kind === kind && !isActiveJob(job)).forEach(releaseResult);
+  jobs = jobs.filter(job => job.kind !== kind || isActiveJob(job));
+  notifyListeners();
+};
+
+export const listQueueJobs = (): QueueJob[] => jobs;
+
+export const getQueueJob = (id: string): QueueJob | undefined => findJob(id);
+
+export const getQueueConcurrency = () => concurrency;
+
+export const setQueueConcurrency = (value: number) => {
+  concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(value)));
+  notifyListeners();
+  runNextJobs();
+};
+
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
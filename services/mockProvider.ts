@@ -0,0 +1,454 @@
+import type { EnhancementStyle, GenerationProvider, ImageAspectRatio, ImageChatSession, ImageGenerationOptions, ImageStreamListener, ImageStreamPart, InlineImage, VideoGenerationOptions, VideoProgressListener } from "./generationProvider";
+import { GenerationError } from "./generationError";
+import type { GenerationErrorCode } from "./generationError";
+import { recordUsage } from "./usageTracker";
+import { abortableDelay, isAbortError } from "../utils/abort";
+
+// An offline provider that synthesizes results locally. Output depends only on the
+// inputs, so the same prompt always yields the same picture.
+
+const MOCK_LATENCY_MS = 800;
+const MOCK_IMAGE_SIZE = 1024;
+const MOCK_VIDEO_WIDTH = 640;
+const MOCK_VIDEO_HEIGHT = 360;
+const MOCK_VIDEO_FRAMES = 72;
+const MOCK_VIDEO_FPS = 24;
+// Containers to record in, by preference. Safari records only MP4.
+const MOCK_VIDEO_TYPES = ['video/webm', 'video/mp4'];
+const MOCK_STREAM_WORD_MS = 60;
+// What the Gemini API counts for one image, in and out.
+const MOCK_TOKENS_PER_IMAGE = 1290;
+
+// Include this token in a prompt to make the mock provider reject the request. An error
+// code may follow, e.g. `[mock:fail:safety]`, to see how the studios present it.
+const FAILURE_PATTERN = /\[mock:fail(?::(\w+))?\]/;
+
+const MOCK_FAILURE_CODES: GenerationErrorCode[] = ['safety', 'quota', 'invalidKey', 'emptyResponse', 'textInsteadOfImage', 'network', 'unknown'];
+
+// `providerJobFailed` marks failures of a submitted video job, as the Gemini provider does.
+const requestedFailure = (prompt: string, providerJobFailed = false): GenerationError | null => {
+  const match = prompt.match(FAILURE_PATTERN);
+  if (!match) return null;
+  const code = MOCK_FAILURE_CODES.find(candidate => candidate === match[1]) ?? 'unknown';
+  return new GenerationError(code, "Mock provider was asked to fail this request.", {
+    safetyCategories: code === 'safety' ? ['DANGEROUS_CONTENT'] : [],
+    detail: code === 'textInsteadOfImage' ? "I can't draw that, but here is a description instead." : null,
+    providerJobFailed,
+  });
+};
+
+// Rough counts in the shape Gemini reports, so the usage panel can be tried offline.
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const recordImageUsage = (model: string | undefined, prompt: string, inputImages: number, text: string, images: number) => recordUsage({
+  model: model ?? mockProvider.models.image,
+  inputTokens: estimateTokens(prompt) + inputImages * MOCK_TOKENS_PER_IMAGE,
+  outputTokens: estimateTokens(text),
+  imageTokens: images * MOCK_TOKENS_PER_IMAGE,
+  images,
+});
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// FNV-1a, good enough to turn inputs into a stable seed.
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const seedFor = (prompt: string, images: (InlineImage | null)[]) =>
+  hashString([prompt, ...images.map(image => image ? image.base64Data.slice(0, 256) : '')].join('|'));
+
+const loadImage = (image: InlineImage): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Mock provider could not decode an input image.'));
+    img.src = `data:${image.mimeType};base64,${image.base64Data}`;
+  });
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas 2D context is not available.');
+  }
+  return { canvas, ctx };
+};
+
+const drawBackdrop = (ctx: CanvasRenderingContext2D, width: number, height: number, random: () => number) => {
+  const hue = Math.floor(random() * 360);
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, `hsl(${hue}, 70%, 60%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 120) % 360}, 70%, 40%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  for (let i = 0; i < 12; i++) {
+    ctx.fillStyle = `hsla(${Math.floor(random() * 360)}, 80%, 70%, 0.35)`;
+    ctx.beginPath();
+    ctx.arc(random() * width, random() * height, 20 + random() * width / 6, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, width: number, height: number, text: string) => {
+  const fontSize = Math.max(14, Math.round(width / 32));
+  ctx.font = `600 ${fontSize}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'bottom';
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, height - fontSize * 2, width, fontSize * 2);
+  ctx.fillStyle = 'white';
+  const caption = text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  ctx.fillText(`MOCK · ${caption}`, width / 2, height - fontSize / 2);
+};
+
+const MOCK_STYLE_PHRASES: Record<EnhancementStyle, string[]> = {
+  photoreal: ['shot on a 50mm lens', 'soft natural light', 'shallow depth of field', 'fine skin and fabric texture'],
+  illustration: ['watercolor illustration', 'bold ink outlines', 'flat pastel palette', 'storybook composition'],
+  cinematic: ['slow dolly-in', 'anamorphic lens flare', 'teal and orange grade', 'golden hour backlight'],
+  concise: ['clear subject', 'simple background', 'centered framing', 'even lighting'],
+};
+
+const enhancePrompt: GenerationProvider['enhancePrompt'] = async (prompt, options = {}) => {
+  if (!prompt.trim()) {
+    return Promise.reject(new GenerationError('emptyPrompt', "Prompt cannot be empty."));
+  }
+  await abortableDelay(MOCK_LATENCY_MS / 2, options.signal);
+  const style = options.style ?? (options.target === 'video' ? 'cinematic' : 'photoreal');
+  const phrases = MOCK_STYLE_PHRASES[style];
+  const offset = hashString(prompt) % phrases.length;
+  const suggestions = Array.from({ length: options.count ?? 3 }, (_, i) =>
+    `${prompt.trim()}, ${phrases[(offset + i) % phrases.length]}, ${phrases[(offset + i + 1) % phrases.length]}`
+  );
+  recordUsage({ model: mockProvider.models.text, inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(suggestions.join('\n')) });
+  return suggestions;
+};
+
+// Text-to-image results take the requested aspect ratio with MOCK_IMAGE_SIZE as the long side.
+const sizeForAspectRatio = (aspectRatio: ImageAspectRatio | undefined) => {
+  const [w, h] = (aspectRatio ?? '1:1').split(':').map(Number);
+  return w >= h
+    ? { width: MOCK_IMAGE_SIZE, height: Math.round(MOCK_IMAGE_SIZE * h / w) }
+    : { width: Math.round(MOCK_IMAGE_SIZE * w / h), height: MOCK_IMAGE_SIZE };
+};
+
+const synthesizeImage = async (
+  prompt: string,
+  baseImage: InlineImage | null,
+  referenceImages: InlineImage[],
+  maskImage: InlineImage | null,
+  variation: number,
+  aspectRatio?: ImageAspectRatio
+): Promise<InlineImage> => {
+  // Variation 0 keeps the plain seed so single-image results stay stable.
+  const seed = seedFor(prompt, [baseImage, maskImage, ...referenceImages]);
+  const random = createRandom(variation === 0 ? seed : hashString(`${seed}#${variation}`));
+  const base = baseImage ? await loadImage(baseImage) : null;
+  const { width, height } = base ? { width: base.naturalWidth, height: base.naturalHeight } : sizeForAspectRatio(aspectRatio);
+  const { canvas, ctx } = createCanvas(width, height);
+
+  if (base) {
+    ctx.drawImage(base, 0, 0, width, height);
+
+    // Tint the edited region: the masked area if there is a mask, otherwise everything.
+    const { canvas: tint, ctx: tintCtx } = createCanvas(width, height);
+    tintCtx.fillStyle = `hsla(${Math.floor(random() * 360)}, 90%, 55%, 0.45)`;
+    tintCtx.fillRect(0, 0, width, height);
+    if (maskImage) {
+      const mask = await loadImage(maskImage);
+      const { canvas: alphaMask, ctx: alphaCtx } = createCanvas(width, height);
+      alphaCtx.drawImage(mask, 0, 0, width, height);
+      const maskData = alphaCtx.getImageData(0, 0, width, height);
+      // White marks the editable area; turn luminance into alpha.
+      for (let i = 0; i < maskData.data.length; i += 4) {
+        maskData.data[i + 3] = maskData.data[i];
+      }
+      alphaCtx.putImageData(maskData, 0, 0);
+      tintCtx.globalCompositeOperation = 'destination-in';
+      tintCtx.drawImage(alphaMask, 0, 0);
+    }
+    ctx.drawImage(tint, 0, 0);
+  } else {
+    drawBackdrop(ctx, width, height, random);
+  }
+
+  drawCaption(ctx, width, height, prompt);
+  return { base64Data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+};
+
+// Text mode streams a short caption word by word before each image. The number of
+// images follows the prompt, as the real model decides it too.
+const streamImagesWithText = async (
+  prompt: string,
+  baseImage: InlineImage | null,
+  referenceImages: InlineImage[],
+  maskImage: InlineImage | null,
+  options: ImageGenerationOptions,
+  onStream?: ImageStreamListener
+): Promise<InlineImage[]> => {
+  const count = 1 + hashString(prompt) % 2;
+  let parts: ImageStreamPart[] = [];
+  for (let variation = 0; variation < count; variation++) {
+    const caption = `Mock image ${variation + 1} of ${count} for "${prompt.trim()}", drawn from a seeded random pattern.`;
+    const earlierParts = parts;
+    let text = '';
+    for (const word of caption.split(' ')) {
+      await delay(MOCK_STREAM_WORD_MS);
+      text += text ? ` ${word}` : word;
+      parts = [...earlierParts, { type: 'text', text }];
+      onStream?.(parts);
+    }
+    const image = await synthesizeImage(prompt, baseImage, referenceImages, maskImage, variation, options.aspectRatio);
+    parts = [...parts, { type: 'image', image }];
+    onStream?.(parts);
+  }
+  const text = parts.map(part => part.type === 'text' ? part.text : '').join(' ');
+  recordImageUsage(options.model, prompt, [baseImage, maskImage, ...referenceImages].filter(Boolean).length, text, count);
+  return parts.flatMap((part, index) => {
+    const previous = parts[index - 1];
+    return part.type === 'image' ? [{ ...part.image, caption: previous?.type === 'text' ? previous.text : undefined }] : [];
+  });
+};
+
+const generateOrEditImage: GenerationProvider['generateOrEditImage'] = async (prompt, baseImage, referenceImages, maskImage, options = {}, onStream) => {
+  await delay(MOCK_LATENCY_MS);
+  const failure = requestedFailure(prompt);
+  if (failure) {
+    return Promise.reject(failure);
+  }
+  if (options.includeText) {
+    return streamImagesWithText(prompt, baseImage, referenceImages, maskImage, options, onStream);
+  }
+
+  const count = Math.max(1, options.numberOfImages ?? 1);
+  const images: InlineImage[] = [];
+  for (let variation = 0; variation < count; variation++) {
+    images.push(await synthesizeImage(prompt, baseImage, referenceImages, maskImage, variation, options.aspectRatio));
+    // Gemini makes one call per variation.
+    recordImageUsage(options.model, prompt, [baseImage, maskImage, ...referenceImages].filter(Boolean).length, '', 1);
+  }
+  return images;
+};
+
+// Each reply edits the last image with every instruction so far in the caption, so
+// it is easy to see that earlier turns are remembered. Attached images replace the base.
+const startImageChat: GenerationProvider['startImageChat'] = (options = {}) => {
+  const instructions: string[] = [];
+  let lastImage: InlineImage | null = null;
+
+  const send: ImageChatSession['send'] = async (prompt, images, onStream) => {
+    await delay(MOCK_LATENCY_MS);
+    const failure = requestedFailure(prompt);
+    if (failure) {
+      return Promise.reject(failure);
+    }
+    const history = [...instructions, prompt.trim()];
+    const reply = instructions.length === 0
+      ? `Here is a first take on "${prompt.trim()}".`
+      : `Updated the previous image to also ${prompt.trim()}.`;
+    let parts: ImageStreamPart[] = [];
+    let text = '';
+    for (const word of reply.split(' ')) {
+      await delay(MOCK_STREAM_WORD_MS);
+      text += text ? ` ${word}` : word;
+      parts = [{ type: 'text', text }];
+      onStream?.(parts);
+    }
+    const image = await synthesizeImage(history.join(' → '), images[0] ?? lastImage, images.slice(1), null, 0, options.aspectRatio);
+    parts = [...parts, { type: 'image', image }];
+    onStream?.(parts);
+    // Each turn sends the earlier ones again, including the images returned so far.
+    recordImageUsage(options.model, history.join(' '), images.length + instructions.length, reply, 1);
+    // Like a Gemini chat, only turns that succeed are remembered.
+    instructions.push(prompt.trim());
+    lastImage = image;
+    return parts;
+  };
+
+  return { send };
+};
+
+// The first container this browser can record, or null when it cannot record at all.
+const recordableVideoType = (): string | null =>
+  typeof MediaRecorder === 'undefined' ? null : MOCK_VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+
+// `onSecond` is called after every second of recorded footage.
+const synthesizeVideo = async (prompt: string, start: HTMLImageElement | null, seed: number, width: number, height: number, mimeType: string, onSecond: () => void, signal?: AbortSignal): Promise<Blob> => {
+  const random = createRandom(seed);
+  const { canvas: backdrop, ctx: backdropCtx } = createCanvas(width, height);
+  if (start) {
+    backdropCtx.drawImage(start, 0, 0, width, height);
+  } else {
+    drawBackdrop(backdropCtx, width, height, random);
+  }
+  const orbHue = Math.floor(random() * 360);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  const drawFrame = (frame: number) => {
+    const progress = frame / MOCK_VIDEO_FRAMES;
+    ctx.drawImage(backdrop, 0, 0);
+    ctx.fillStyle = `hsla(${orbHue}, 90%, 65%, 0.8)`;
+    ctx.beginPath();
+    ctx.arc(progress * width, height / 2 + Math.sin(progress * Math.PI * 4) * 60, 36, 0, Math.PI * 2);
+    ctx.fill();
+    drawCaption(ctx, width, height, prompt);
+  };
+
+  const stream = canvas.captureStream(MOCK_VIDEO_FPS);
+  const chunks: Blob[] = [];
+  let recorderFailed = false;
+  try {
+    const recorder = new MediaRecorder(stream, { mimeType });
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => {
+      recorder.onstop = () => resolve();
+      recorder.onerror = () => { recorderFailed = true; resolve(); };
+    });
+
+    drawFrame(0);
+    recorder.start();
+    try {
+      for (let frame = 1; frame <= MOCK_VIDEO_FRAMES && !recorderFailed; frame++) {
+        await abortableDelay(1000 / MOCK_VIDEO_FPS, signal);
+        drawFrame(frame);
+        if (frame % MOCK_VIDEO_FPS === 0) onSecond();
+      }
+    } finally {
+      if (recorder.state !== 'inactive') recorder.stop();
+      await stopped;
+    }
+    if (recorderFailed || chunks.length === 0) throw new Error(`The ${mimeType} recorder stopped without producing a video.`);
+    return new Blob(chunks, { type: recorder.mimeType || mimeType });
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+  }
+};
+
+// Only the aspect ratio and number of videos are honored; other settings are ignored.
+const renderVideos = async (
+  prompt: string,
+  startImage: InlineImage | null,
+  options: VideoGenerationOptions,
+  onProgress: VideoProgressListener,
+  startedAt: number,
+  mimeType: string,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const portrait = options.aspectRatio === '9:16';
+  const width = portrait ? MOCK_VIDEO_HEIGHT : MOCK_VIDEO_WIDTH;
+  const height = portrait ? MOCK_VIDEO_WIDTH : MOCK_VIDEO_HEIGHT;
+  const seed = seedFor(prompt, [startImage]);
+  const start = startImage ? await loadImage(startImage) : null;
+  const count = Math.max(1, options.numberOfVideos ?? 1);
+  // Each second of rendering stands in for one status poll.
+  let attempt = 0;
+  const reportPoll = () => onProgress({ type: 'polling', attempt: ++attempt, elapsedMs: Date.now() - startedAt });
+  const blobs: Blob[] = [];
+  for (let index = 0; index < count; index++) {
+    blobs.push(await synthesizeVideo(prompt, start, index === 0 ? seed : hashString(`${seed}#${index}`), width, height, mimeType, reportPoll, signal));
+  }
+
+  onProgress({ type: 'done', elapsedMs: Date.now() - startedAt, videoCount: count });
+  recordUsage({ model: mockProvider.models.video, videos: count, videoSeconds: count * MOCK_VIDEO_FRAMES / MOCK_VIDEO_FPS });
+  return blobs.map((blob, videoIndex) => {
+    onProgress({ type: 'downloading', videoIndex, videoCount: count, loadedBytes: blob.size, totalBytes: blob.size });
+    return URL.createObjectURL(blob);
+  });
+};
+
+// Mock jobs carry their own description in the id so they can be resumed after a
+// reload. The start image is too large to keep, so resumed jobs render without it.
+interface MockVideoJob {
+  prompt: string;
+  aspectRatio?: VideoGenerationOptions['aspectRatio'];
+  numberOfVideos?: number;
+}
+
+const MOCK_JOB_PREFIX = 'mock-job:';
+
+const failVideo = (error: GenerationError, onProgress: VideoProgressListener): Promise<never> => {
+  onProgress({ type: 'failed', error });
+  return Promise.reject(error);
+};
+
+const unrecordableVideo = () =>
+  new GenerationError('unknown', "This browser cannot record video, so the mock provider cannot synthesize one.");
+
+// Renders the job's videos; a recorder that breaks down fails the job like a remote failure.
+const recordVideos = (prompt: string, startImage: InlineImage | null, options: VideoGenerationOptions, onProgress: VideoProgressListener, startedAt: number, mimeType: string, signal?: AbortSignal) =>
+  renderVideos(prompt, startImage, options, onProgress, startedAt, mimeType, signal).catch(error => {
+    if (isAbortError(error)) return Promise.reject(error);
+    console.error("Error rendering the mock video:", error);
+    const detail = error instanceof Error ? error.message : String(error);
+    return failVideo(new GenerationError('unknown', `The mock provider could not render the video: ${detail}`, { detail, providerJobFailed: true, cause: error }), onProgress);
+  });
+
+const generateVideo: GenerationProvider['generateVideo'] = async (prompt, startImage, onProgress, options = {}, control = {}) => {
+  const mimeType = recordableVideoType();
+  if (!mimeType) {
+    return failVideo(unrecordableVideo(), onProgress);
+  }
+
+  await abortableDelay(MOCK_LATENCY_MS, control.signal);
+  const job: MockVideoJob = { prompt, aspectRatio: options.aspectRatio, numberOfVideos: options.numberOfVideos };
+  control.onSubmitted?.(MOCK_JOB_PREFIX + JSON.stringify(job));
+  onProgress({ type: 'submitted', resumed: false });
+  // Failing after submission exercises the same path as a real job failing remotely.
+  const failure = requestedFailure(prompt, true);
+  if (failure) {
+    return failVideo(failure, onProgress);
+  }
+  return recordVideos(prompt, startImage, options, onProgress, Date.now(), mimeType, control.signal);
+};
+
+const resumeVideo: GenerationProvider['resumeVideo'] = async (jobId, onProgress, control = {}) => {
+  if (!jobId.startsWith(MOCK_JOB_PREFIX)) {
+    return Promise.reject(new GenerationError('unknown', "This video job was not started by the mock provider."));
+  }
+  const job: MockVideoJob = JSON.parse(jobId.slice(MOCK_JOB_PREFIX.length));
+  const mimeType = recordableVideoType();
+  if (!mimeType) {
+    return failVideo(unrecordableVideo(), onProgress);
+  }
+  await abortableDelay(MOCK_LATENCY_MS, control.signal);
+  onProgress({ type: 'submitted', resumed: true });
+  // A job that failed keeps failing when reattached to, like a finished Veo operation.
+  const failure = requestedFailure(job.prompt, true);
+  if (failure) {
+    return failVideo(failure, onProgress);
+  }
+  return recordVideos(job.prompt, null, job, onProgress, control.startedAt ?? Date.now(), mimeType, control.signal);
+};
+
+export const mockProvider: GenerationProvider = {
+  id: 'mock',
+  requiresKeySelection: false,
+  models: { text: 'mock-text', image: 'mock-image', imageChoices: ['mock-image'], video: 'mock-video', videoChoices: ['mock-video'] },
+  enhancePrompt,
+  generateOrEditImage,
+  startImageChat,
+  generateVideo,
+  resumeVideo,
+};
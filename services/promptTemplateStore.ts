@@ -0,0 +1,89 @@
+// Named prompt templates, kept in localStorage so they survive reloads. Each template
+// belongs to the studio it was saved from.
+
+const STORAGE_KEY = 'gemini-creative-suite:prompt-templates';
+const EXPORT_VERSION = 1;
+
+export type PromptTemplateKind = 'image' | 'video';
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  text: string;
+  kind: PromptTemplateKind;
+  updatedAt: number;
+}
+
+type TemplateListener = () => void;
+const listeners = new Set<TemplateListener>();
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+const isTemplateKind = (value: unknown): value is PromptTemplateKind => value === 'image' || value === 'video';
+
+const readTemplates = (): PromptTemplate[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const templates = raw ? JSON.parse(raw) : [];
+    return Array.isArray(templates) ? templates : [];
+  } catch (err) {
+    console.error("Error reading prompt templates:", err);
+    return [];
+  }
+};
+
+const writeTemplates = (templates: PromptTemplate[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+  } catch (err) {
+    console.error("Error saving prompt templates:", err);
+  }
+  notifyListeners();
+};
+
+// Sorted by name.
+export const listPromptTemplates = (kind: PromptTemplateKind): PromptTemplate[] =>
+  readTemplates()
+    .filter(template => template.kind === kind)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+// Saving under an existing name for the same studio replaces that template.
+export const savePromptTemplate = (name: string, text: string, kind: PromptTemplateKind): PromptTemplate => {
+  const templates = readTemplates();
+  const existing = templates.find(template => template.kind === kind && template.name === name);
+  const saved: PromptTemplate = { id: existing?.id ?? crypto.randomUUID(), name, text, kind, updatedAt: Date.now() };
+  writeTemplates([...templates.filter(template => template.id !== saved.id), saved]);
+  return saved;
+};
+
+export const deletePromptTemplate = (id: string) => {
+  writeTemplates(readTemplates().filter(template => template.id !== id));
+};
+
+export const exportPromptTemplates = (kind: PromptTemplateKind): string =>
+  JSON.stringify({
+    version: EXPORT_VERSION,
+    templates: listPromptTemplates(kind).map(({ name, text, kind: templateKind }) => ({ name, text, kind: templateKind })),
+  }, null, 2);
+
+const toImportedTemplate = (item: unknown) => {
+  if (!item || typeof item !== 'object') return null;
+  const { name, text, kind } = item as Record<string, unknown>;
+  return typeof name === 'string' && name.trim() && typeof text === 'string' ? { name: name.trim(), text, kind } : null;
+};
+
+// Accepts an export file or a bare array of { name, text, kind? }. Templates without a
+// kind go to `kind`. Returns how many templates were imported; throws if none are valid.
+export const importPromptTemplates = (json: string, kind: PromptTemplateKind): number => {
+  const data = JSON.parse(json);
+  const items: unknown[] = Array.isArray(data) ? data : Array.isArray(data?.templates) ? data.templates : [];
+  const imported = items.map(toImportedTemplate).filter(item => item !== null);
+  if (imported.length === 0) throw new Error('No templates found in the file.');
+  imported.forEach(item => savePromptTemplate(item.name, item.text, isTemplateKind(item.kind) ? item.kind : kind));
+  return imported.length;
+};
+
+export const subscribeToPromptTemplates = (listener: TemplateListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,42 @@
+// Provider requests that are waiting to be sent, either for the client-side rate
+// limit or to retry after a transient failure. The studios list them so a slow
+// request does not look stuck.
+
+export type RequestKind = 'enhance' | 'image' | 'video' | 'videoStatus';
+
+export interface RequestWait {
+  id: string;
+  kind: RequestKind;
+  reason: 'rateLimit' | 'retry';
+  // For retries: which retry this is, out of `maxRetries`.
+  retry: number;
+  maxRetries: number;
+  // The HTTP status that caused the retry, or null for a network failure.
+  status: number | null;
+  resumeAt: number;
+}
+
+type RequestActivityListener = () => void;
+const listeners = new Set<RequestActivityListener>();
+
+let waits: RequestWait[] = [];
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+// Returns a function that ends the wait.
+export const beginRequestWait = (wait: Omit<RequestWait, 'id'>): (() => void) => {
+  const id = crypto.randomUUID();
+  waits = [...waits, { ...wait, id }];
+  notifyListeners();
+  return () => {
+    waits = waits.filter(existing => existing.id !== id);
+    notifyListeners();
+  };
+};
+
+export const listRequestWaits = (): RequestWait[] => waits;
+
+export const subscribeToRequestActivity = (listener: RequestActivityListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const loadTracker = async (modelPrices?: string) => {
+  vi.resetModules();
+  vi.stubEnv('MODEL_PRICES', modelPrices ?? '');
+  const storage = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => { storage.set(key, value); },
+  });
+  return import('./usageTracker');
+};
+
+beforeEach(() => {
+  vi.unstubAllEnvs();
+  vi.unstubAllGlobals();
+});
+
+describe('estimateCost', () => {
+  it('prices text, image tokens and video seconds separately', async () => {
+    const { estimateCost } = await loadTracker();
+    expect(estimateCost({ model: 'gemini-2.5-flash-image', inputTokens: 1000, outputTokens: 20, imageTokens: 1290 })).toBeCloseTo(0.0003 + 0.00005 + 0.0387, 8);
+    expect(estimateCost({ model: 'veo-3.1-generate-preview', videoSeconds: 8 })).toBeCloseTo(3.2, 8);
+  });
+
+  it('has no price for unknown models unless MODEL_PRICES adds one', async () => {
+    expect((await loadTracker()).estimateCost({ model: 'mock-image', imageTokens: 1290 })).toBeNull();
+    const { estimateCost } = await loadTracker('{"mock-image":{"outputPerMillion":10}}');
+    // Image tokens fall back to the text output price.
+    expect(estimateCost({ model: 'mock-image', imageTokens: 1000000 })).toBeCloseTo(10, 8);
+  });
+
+  it('ignores a MODEL_PRICES value that is not an object', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { getModelPrice } = await loadTracker('[1, 2]');
+    expect(getModelPrice('gemini-2.5-flash')).toEqual({ inputPerMillion: 0.3, outputPerMillion: 2.5 });
+  });
+});
+
+describe('recordUsage', () => {
+  it('adds to the session and today, and counts a video job once', async () => {
+    const { recordUsage, getSessionUsage, listDailyUsage, sumUsage } = await loadTracker();
+    recordUsage({ model: 'veo-3.1-generate-preview', videos: 1, videoSeconds: 8, jobId: 'operations/1' });
+    recordUsage({ model: 'veo-3.1-generate-preview', videos: 1, videoSeconds: 8, jobId: 'operations/1' });
+    recordUsage({ model: 'mock-text', inputTokens: 5 });
+
+    const session = sumUsage(getSessionUsage());
+    expect(session.calls).toBe(2);
+    expect(session.videos).toBe(1);
+    expect(session.unpricedCalls).toBe(1);
+    expect(session.cost).toBeCloseTo(3.2, 8);
+    expect(listDailyUsage()).toHaveLength(1);
+    expect(sumUsage(listDailyUsage()[0].models).cost).toBeCloseTo(3.2, 8);
+  });
+});
+
+describe('getBudgetWarnings', () => {
+  it('warns from 80% of a budget and flags budgets that are used up', async () => {
+    const { recordUsage, setUsageBudget, getBudgetWarnings } = await loadTracker();
+    recordUsage({ model: 'veo-3.1-generate-preview', videoSeconds: 8 });
+    setUsageBudget({ daily: 3.5, session: 3 });
+    expect(getBudgetWarnings()).toEqual([
+      { period: 'daily', spent: expect.closeTo(3.2, 8), limit: 3.5, exceeded: false },
+      { period: 'session', spent: expect.closeTo(3.2, 8), limit: 3, exceeded: true },
+    ]);
+    setUsageBudget({ daily: 10, session: null });
+    expect(getBudgetWarnings()).toEqual([]);
+  });
+});
@@ -0,0 +1,245 @@
+// Tokens, images and videos used per model, with a cost estimate from a price table.
+// Day totals are kept in localStorage; session totals last until the page is reloaded.
+// The estimate uses list prices, so the provider's billing remains authoritative.
+
+const STORAGE_KEY = 'gemini-creative-suite:usage';
+const BUDGET_STORAGE_KEY = 'gemini-creative-suite:usage-budget';
+const MAX_DAYS_KEPT = 90;
+// Budgets warn once this share has been spent.
+const BUDGET_WARNING_RATIO = 0.8;
+// Video jobs already counted, so a job resumed after a reload is not counted twice.
+const MAX_COUNTED_JOBS = 100;
+
+// Prices in USD. Token prices are per million tokens.
+export interface ModelPrice {
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+  // Image output, where it costs more than text output.
+  imageOutputPerMillion?: number;
+  perVideoSecond?: number;
+}
+
+// Paid tier list prices. MODEL_PRICES, a JSON object keyed by model, adds or replaces entries.
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 2.5, imageOutputPerMillion: 30 },
+  'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 12, imageOutputPerMillion: 120 },
+  'veo-3.1-fast-generate-preview': { perVideoSecond: 0.15 },
+  'veo-3.1-generate-preview': { perVideoSecond: 0.4 },
+};
+
+const readConfiguredPrices = (): Record<string, ModelPrice> => {
+  const raw = process.env.MODEL_PRICES?.trim();
+  if (!raw) {
+    return {};
+  }
+  try {
+    const configured = JSON.parse(raw);
+    if (configured && typeof configured === 'object' && !Array.isArray(configured)) {
+      return configured;
+    }
+  } catch (err) {
+    console.error("Error parsing MODEL_PRICES:", err);
+  }
+  console.warn('Ignoring MODEL_PRICES, which is not a JSON object keyed by model.');
+  return {};
+};
+
+const prices: Record<string, ModelPrice> = { ...DEFAULT_PRICES, ...readConfiguredPrices() };
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  // Text and thinking tokens.
+  outputTokens: number;
+  imageTokens: number;
+  images: number;
+  videos: number;
+  videoSeconds: number;
+  // Estimated USD. Calls to models without a price add nothing here.
+  cost: number;
+  unpricedCalls: number;
+}
+
+// What one request used. Every entry counts as one call.
+export interface UsageEntry {
+  model: string;
+  inputTokens?: number;
+  outputTokens?: number;
+  imageTokens?: number;
+  images?: number;
+  videos?: number;
+  videoSeconds?: number;
+  // For video jobs: entries for a job that was already counted are ignored.
+  jobId?: string;
+}
+
+export type UsageByModel = Record<string, UsageTotals>;
+
+export interface DailyUsage {
+  // Local date, `YYYY-MM-DD`.
+  day: string;
+  models: UsageByModel;
+}
+
+// Limits in USD; null means no limit.
+export interface UsageBudget {
+  daily: number | null;
+  session: number | null;
+}
+
+export interface BudgetStatus {
+  period: 'daily' | 'session';
+  spent: number;
+  limit: number;
+  exceeded: boolean;
+}
+
+interface StoredUsage {
+  days: Record<string, UsageByModel>;
+  countedJobIds: string[];
+}
+
+type UsageListener = () => void;
+const listeners = new Set<UsageListener>();
+
+let sessionUsage: UsageByModel = {};
+
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+const EMPTY_TOTALS: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, imageTokens: 0, images: 0, videos: 0, videoSeconds: 0, cost: 0, unpricedCalls: 0 };
+
+const localDay = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const readUsage = (): StoredUsage => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const stored = raw ? JSON.parse(raw) : null;
+    return {
+      days: stored?.days && typeof stored.days === 'object' ? stored.days : {},
+      countedJobIds: Array.isArray(stored?.countedJobIds) ? stored.countedJobIds : [],
+    };
+  } catch (err) {
+    console.error("Error reading usage:", err);
+    return { days: {}, countedJobIds: [] };
+  }
+};
+
+const writeUsage = (usage: StoredUsage) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(usage));
+  } catch (err) {
+    console.error("Error saving usage:", err);
+  }
+  notifyListeners();
+};
+
+export const getModelPrice = (model: string): ModelPrice | null => prices[model] ?? null;
+
+// Null when the model has no price.
+export const estimateCost = (entry: UsageEntry): number | null => {
+  const price = getModelPrice(entry.model);
+  if (!price) {
+    return null;
+  }
+  const tokenCost = (entry.inputTokens ?? 0) * (price.inputPerMillion ?? 0)
+    + (entry.outputTokens ?? 0) * (price.outputPerMillion ?? 0)
+    + (entry.imageTokens ?? 0) * (price.imageOutputPerMillion ?? price.outputPerMillion ?? 0);
+  return tokenCost / 1e6 + (entry.videoSeconds ?? 0) * (price.perVideoSecond ?? 0);
+};
+
+const addEntry = (totals: UsageTotals = EMPTY_TOTALS, entry: UsageEntry, cost: number | null): UsageTotals => ({
+  calls: totals.calls + 1,
+  inputTokens: totals.inputTokens + (entry.inputTokens ?? 0),
+  outputTokens: totals.outputTokens + (entry.outputTokens ?? 0),
+  imageTokens: totals.imageTokens + (entry.imageTokens ?? 0),
+  images: totals.images + (entry.images ?? 0),
+  videos: totals.videos + (entry.videos ?? 0),
+  videoSeconds: totals.videoSeconds + (entry.videoSeconds ?? 0),
+  cost: totals.cost + (cost ?? 0),
+  unpricedCalls: totals.unpricedCalls + (cost === null ? 1 : 0),
+});
+
+export const recordUsage = (entry: UsageEntry) => {
+  const stored = readUsage();
+  if (entry.jobId) {
+    if (stored.countedJobIds.includes(entry.jobId)) return;
+    stored.countedJobIds = [...stored.countedJobIds, entry.jobId].slice(-MAX_COUNTED_JOBS);
+  }
+  const cost = estimateCost(entry);
+  sessionUsage = { ...sessionUsage, [entry.model]: addEntry(sessionUsage[entry.model], entry, cost) };
+
+  const today = localDay(new Date());
+  const todayUsage = stored.days[today] ?? {};
+  const days = { ...stored.days, [today]: { ...todayUsage, [entry.model]: addEntry(todayUsage[entry.model], entry, cost) } };
+  const keptDays = Object.keys(days).sort().slice(-MAX_DAYS_KEPT);
+  writeUsage({ days: Object.fromEntries(keptDays.map(day => [day, days[day]])), countedJobIds: stored.countedJobIds });
+};
+
+// Totals across every model.
+export const sumUsage = (usage: UsageByModel): UsageTotals =>
+  Object.values(usage).reduce((sum, totals) => ({
+    calls: sum.calls + totals.calls,
+    inputTokens: sum.inputTokens + totals.inputTokens,
+    outputTokens: sum.outputTokens + totals.outputTokens,
+    imageTokens: sum.imageTokens + totals.imageTokens,
+    images: sum.images + totals.images,
+    videos: sum.videos + totals.videos,
+    videoSeconds: sum.videoSeconds + totals.videoSeconds,
+    cost: sum.cost + totals.cost,
+    unpricedCalls: sum.unpricedCalls + totals.unpricedCalls,
+  }), EMPTY_TOTALS);
+
+export const getSessionUsage = (): UsageByModel => sessionUsage;
+
+// Newest first.
+export const listDailyUsage = (): DailyUsage[] =>
+  Object.entries(readUsage().days)
+    .map(([day, models]) => ({ day, models }))
+    .sort((a, b) => b.day.localeCompare(a.day));
+
+// Clears the stored days. The current session's totals are kept.
+export const clearUsageHistory = () => {
+  writeUsage({ days: {}, countedJobIds: readUsage().countedJobIds });
+};
+
+const toLimit = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : null;
+
+export const getUsageBudget = (): UsageBudget => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BUDGET_STORAGE_KEY) ?? 'null');
+    return { daily: toLimit(stored?.daily), session: toLimit(stored?.session) };
+  } catch (err) {
+    console.error("Error reading usage budget:", err);
+    return { daily: null, session: null };
+  }
+};
+
+export const setUsageBudget = (budget: UsageBudget) => {
+  try {
+    localStorage.setItem(BUDGET_STORAGE_KEY, JSON.stringify({ daily: toLimit(budget.daily), session: toLimit(budget.session) }));
+  } catch (err) {
+    console.error("Error saving usage budget:", err);
+  }
+  notifyListeners();
+};
+
+// Budgets that are nearly or fully spent, for a warning before starting new work.
+export const getBudgetWarnings = (): BudgetStatus[] => {
+  const budget = getUsageBudget();
+  const spent = {
+    daily: sumUsage(readUsage().days[localDay(new Date())] ?? {}).cost,
+    session: sumUsage(sessionUsage).cost,
+  };
+  return (['daily', 'session'] as const).flatMap(period => {
+    const limit = budget[period];
+    if (limit === null || spent[period] < limit * BUDGET_WARNING_RATIO) return [];
+    return [{ period, spent: spent[period], limit, exceeded: spent[period] >= limit }];
+  });
+};
+
+export const subscribeToUsage = (listener: UsageListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
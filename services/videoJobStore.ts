@@ -0,0 +1,56 @@
+import type { ProviderId, VideoGenerationOptions } from './generationProvider';
+
+// Video jobs run for minutes and are billed as soon as they are submitted, so each
+// one is recorded in localStorage until it finishes. After a reload the generator
+// reattaches to whatever is still recorded.
+
+const STORAGE_KEY = 'gemini-creative-suite:video-jobs';
+
+// Generated videos are only kept on the server for two days.
+const MAX_JOB_AGE_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface VideoJobRecord {
+  // The provider's job id, e.g. the Veo operation name.
+  id: string;
+  providerId: ProviderId;
+  prompt: string;
+  startedAt: number;
+  settings?: VideoGenerationOptions;
+  // The start image itself is too large to keep here.
+  hasStartImage?: boolean;
+}
+
+const readJobs = (): VideoJobRecord[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const jobs = raw ? JSON.parse(raw) : [];
+    return Array.isArray(jobs) ? jobs : [];
+  } catch (err) {
+    console.error("Error reading video jobs:", err);
+    return [];
+  }
+};
+
+const writeJobs = (jobs: VideoJobRecord[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(jobs));
+  } catch (err) {
+    console.error("Error saving video jobs:", err);
+  }
+};
+
+// Oldest first. Records too old to be resumed are dropped.
+export const listVideoJobs = (): VideoJobRecord[] => {
+  const jobs = readJobs();
+  const fresh = jobs.filter(job => Date.now() - job.startedAt < MAX_JOB_AGE_MS);
+  if (fresh.length !== jobs.length) writeJobs(fresh);
+  return fresh.sort((a, b) => a.startedAt - b.startedAt);
+};
+
+export const saveVideoJob = (job: VideoJobRecord) => {
+  writeJobs([...readJobs().filter(existing => existing.id !== job.id), job]);
+};
+
+export const removeVideoJob = (id: string) => {
+  writeJobs(readJobs().filter(job => job.id !== id));
+};
@@ -29,8 +29,144 @@ const translations = {
     changeFile: 'Change file',
     describeVideo: '2. Describe Your Video',
     videoPromptPlaceholder: 'e.g., A futuristic city at night, with flying cars and neon lights...',
+    videoSettings: 'Video settings',
+    model: 'Model',
+    historyModelDiffers: (model: string) => `The entry you opened was made with ${model}, which is not the selected model.`,
+    resolution: 'Resolution',
+    landscape: '16:9 Landscape',
+    portrait: '9:16 Portrait',
+    numberOfVideos: 'Number of videos',
+    negativePrompt: 'Negative prompt',
+    negativePromptPlaceholder: 'e.g., blurry, text, watermark',
+    videoN: (n: number) => `Video ${n}`,
     generateVideoBtn: 'Generate Video',
     generatingVideo: 'Generating Video',
+    cancelGeneration: 'Cancel',
+    cancelGenerationNote: 'Stops waiting for this video. A job that was already submitted may still be billed.',
+    progressTitle: 'Progress',
+    progressSubmitted: 'Job submitted',
+    progressResumed: 'Reattached after reload',
+    progressPolling: 'Generating',
+    pollAttempt: (n: number) => `Status check #${n}`,
+    progressDone: 'Generation finished',
+    progressDownloading: 'Downloading',
+    elapsed: 'Elapsed',
+    jobQueue: 'Queue',
+    concurrency: 'Run at once',
+    clearFinished: 'Clear finished',
+    queueEmpty: 'No jobs in the queue.',
+    jobQueued: 'Queued',
+    jobRunning: 'Running',
+    jobRetrying: 'Retrying',
+    jobSucceeded: 'Done',
+    jobFailed: 'Failed',
+    jobCanceled: 'Canceled',
+    attemptNOfM: (n: number, m: number) => `Attempt ${n} of ${m}`,
+    moveUp: 'Move up',
+    moveDown: 'Move down',
+    removeFromQueue: 'Remove from queue',
+    startImageNotKept: 'Resumed after a reload without its start image, so it cannot be sent again. Add the image and generate a new video instead.',
+    batchRun: 'Batch Run',
+    batchDescription: 'Import a CSV or JSON list with a prompt per row and optional base_image, mask and references columns naming uploaded images (separate several references with ";"). Rows without a base image use the current base image. Every row is added to the queue.',
+    batchListFile: 'Choose list file',
+    batchImages: 'Add images',
+    batchRowsLoaded: (n: number) => `${n} ${n === 1 ? 'row' : 'rows'}`,
+    batchImagesLoaded: (n: number) => `${n} ${n === 1 ? 'image' : 'images'} loaded`,
+    runBatch: 'Run Batch',
+    cancelBatch: 'Cancel Batch',
+    exportBatch: 'Export Zip',
+    batchReset: 'Start over',
+    batchRowN: (n: number) => `Row ${n}`,
+    batchSkipped: 'Skipped',
+    errorBatchFile: 'Could not read the batch list.',
+    errorBatchEmpty: 'The list has no rows.',
+    errorBatchMissingImage: (name: string) => `Image "${name}" was not uploaded.`,
+    errorBatchMaskWithoutBase: 'A mask needs a base image.',
+    promptTemplates: 'Templates',
+    chooseTemplate: 'Choose a template…',
+    noTemplates: 'No saved templates yet',
+    useTemplate: 'Use Template',
+    deleteTemplate: 'Delete template',
+    importTemplates: 'Import templates (JSON)',
+    exportTemplates: 'Export templates (JSON)',
+    templateName: 'Template name',
+    saveAsTemplate: 'Save Current Prompt',
+    templateVariablesHint: 'Write {{name}} in the prompt to add a variable that is filled in when the template is used.',
+    templateSaved: (name: string) => `Saved "${name}".`,
+    templatesImported: (n: number) => `Imported ${n} ${n === 1 ? 'template' : 'templates'}.`,
+    errorTemplateImport: 'The file does not contain any valid templates.',
+    enhanceStyle: 'Style',
+    enhanceStylePhotoreal: 'Photoreal',
+    enhanceStyleIllustration: 'Illustration',
+    enhanceStyleCinematic: 'Cinematic',
+    enhanceStyleConcise: 'Concise',
+    enhanceSuggestions: 'Suggestions',
+    suggestionN: (n: number) => `Suggestion ${n}`,
+    useSuggestion: 'Use this',
+    suggestionInUse: 'In use',
+    revertToOriginal: 'Revert to original',
+    retrySuggestions: 'New suggestions',
+    enhanceDiffHint: 'Highlighted words were added, struck-through words were removed from your prompt.',
+    errorSafety: 'The request was blocked by safety filters. Please adjust your prompt or images.',
+    errorSafetyCategories: (categories: string) => `Flagged categories: ${categories}`,
+    safetyHarassment: 'harassment',
+    safetyHateSpeech: 'hate speech',
+    safetySexuallyExplicit: 'sexually explicit content',
+    safetyDangerousContent: 'dangerous content',
+    safetyCivicIntegrity: 'civic integrity',
+    errorQuota: 'The API quota or rate limit was reached. Wait a moment and try again.',
+    errorInvalidKey: 'The API key is missing or invalid. Select a valid API key and try again.',
+    errorEmptyResponse: 'The model returned no result. Trying again often helps.',
+    errorTextInsteadOfImage: 'The model replied with text instead of an image:',
+    errorNetwork: 'Could not reach the server. Check your connection and try again.',
+    errorEmptyPrompt: 'Enter a prompt first.',
+    errorGenerationFailed: 'Generation failed.',
+    retry: 'Retry',
+    dismiss: 'Dismiss',
+    requestKindEnhance: 'Prompt enhancement',
+    requestKindImage: 'Image request',
+    requestKindVideo: 'Video submission',
+    requestKindVideoStatus: 'Video status check',
+    requestWaitingForRateLimit: (request: string, seconds: number) => `${request} is waiting for the per-minute request limit, sending in ${seconds}s.`,
+    requestRetrying: (request: string, cause: string, retry: number, max: number, seconds: number) => `${request} failed (${cause}). Retry ${retry} of ${max} in ${seconds}s.`,
+    requestNetworkFailure: 'network error',
+    includeModelText: 'Include text from the model',
+    includeModelTextHint: 'The model explains its work as it writes and may return several images, each with a caption. The number of variations does not apply.',
+    modelResponse: 'Model Response',
+    editMode: 'Editing mode',
+    editModeSingle: 'Single edit',
+    editModeChat: 'Conversation',
+    editModeChatHint: 'Each message builds on the images from earlier turns. The model and aspect ratio stay fixed until you start a new conversation.',
+    conversation: 'Conversation',
+    conversationEmpty: 'Send a message to start. The base image and reference images are attached to the first message.',
+    conversationYou: 'You',
+    conversationModel: 'Model',
+    sendMessage: 'Send Message',
+    newConversation: 'New conversation',
+    exportConversation: 'Export (.zip)',
+    useAsBaseImage: 'Use as base image',
+    usage: 'Usage & Cost',
+    usageSession: 'This session',
+    usageDaily: 'By day',
+    usageModel: 'Model',
+    usageCalls: 'Calls',
+    usageInputTokens: 'Input tokens',
+    usageOutputTokens: 'Output tokens',
+    usageImages: 'Images',
+    usageVideos: 'Videos',
+    usageCost: 'Est. cost',
+    usageTotal: 'Total',
+    usageEmpty: 'No requests yet.',
+    usageUnpriced: (calls: number) => `${calls} calls went to models without a price and are not in the cost estimate.`,
+    usageDailyBudget: 'Daily budget (USD)',
+    usageSessionBudget: 'Session budget (USD)',
+    usageNoLimit: 'No limit',
+    usageClearHistory: 'Clear usage history',
+    usageEstimateNote: 'Costs are estimated from list prices and can be changed with MODEL_PRICES. Your billing account has the actual charges. A session lasts until the page is reloaded.',
+    usageDailyBudgetName: 'daily budget',
+    usageSessionBudgetName: 'session budget',
+    usageBudgetNearing: (budget: string, spent: string, limit: string) => `You have used ${spent} of your ${budget} of ${limit}.`,
+    usageBudgetExceeded: (budget: string, spent: string, limit: string) => `Your ${budget} of ${limit} is used up (${spent} so far). New requests will still be sent.`,
     generatedVideo: 'Generated Video',
     imageWillAppear: 'Image will appear here',
     videoWillAppear: 'Video will appear here',
@@ -40,6 +176,13 @@ const translations = {
     downloadVideo: 'Download Video',
     errorInvalidImage: 'Please upload a valid image file (PNG, JPG, etc.).',
     errorReadFile: 'Failed to read the image file.',
+    errorImageDecode: 'Your browser cannot decode this image format. Please convert it to PNG or JPEG first.',
+    errorOpenKeySelection: 'Failed to open the API key selection dialog.',
+    originalSize: 'Original',
+    processedSize: 'Processed',
+    uploadFormat: 'Upload format',
+    uploadFormatAuto: 'Automatic',
+    uploadFormatHint: 'Format uploaded images are converted to before they are sent. Automatic keeps PNG and WebP and converts everything else to JPEG.',
     errorMaxRefImages: (max: number) => `You can only upload a maximum of ${max} reference images.`,
     errorEnhanceFailed: 'Failed to enhance prompt.',
     errorPromptEmpty: 'Please provide a prompt to generate an image.',
@@ -53,14 +196,66 @@ const translations = {
     noMask: 'No Mask',
     maskDescription: 'The AI will focus edits on the masked area.',
     noMaskDescription: 'Apply a mask to control the edit area.',
+    uploadMask: 'Upload Mask',
+    downloadMask: 'Download Mask',
+    cropImage: 'Crop & rotate',
+    aspectRatio: 'Aspect ratio',
+    cropFree: 'Free',
+    rotateLeft: 'Rotate left',
+    rotateRight: 'Rotate right',
+    flipHorizontal: 'Flip H',
+    flipVertical: 'Flip V',
+    resetCrop: 'Reset',
+    applyCrop: 'Apply',
+    adjustedStep: 'Cropped / rotated',
+    errorInvalidMask: 'Failed to read the mask file. Please use a PNG or another image format.',
     maskingEditorTitle: 'Masking Tool',
     brushSize: 'Brush Size',
     brush: 'Brush',
-    eraser: 'Eraser',
+    rectangleTool: 'Rectangle',
+    ellipseTool: 'Ellipse',
+    lassoTool: 'Lasso',
+    magicWandTool: 'Magic Wand',
+    tolerance: 'Tolerance',
+    addToMask: 'Add',
+    subtractFromMask: 'Subtract',
+    hardness: 'Hardness',
+    feather: 'Feather',
+    growMask: 'Grow',
+    shrinkMask: 'Shrink',
+    growShrinkAmount: 'Grow/shrink amount (px)',
+    grayscaleMask: 'Soft (grayscale) mask',
     invertMask: 'Invert',
     clearMask: 'Clear',
     saveMask: 'Save Mask',
     closeEditor: 'Close',
+    undo: 'Undo',
+    redo: 'Redo',
+    resetView: 'Reset View',
+    // History translations
+    history: 'History',
+    searchHistory: 'Search by prompt...',
+    historyEmpty: 'Your generations will be saved here.',
+    historyNoMatches: 'No entries match your search.',
+    openEntry: 'Open',
+    deleteEntry: 'Delete',
+    errorHistoryLoad: 'Failed to load the generation history.',
+    // Edit tree translations
+    continueEditing: 'Continue Editing',
+    editSteps: 'Edit Steps',
+    editStepsDescription: 'Jump back to any step and generate again to fork a new branch.',
+    uploadedStep: 'Uploaded image',
+    // Variation translations
+    numberOfVariations: 'Variations',
+    aspectRatioAuto: 'Auto',
+    outputFormat: 'Output format',
+    outputFormatOriginal: 'As returned',
+    variations: 'Variations',
+    variationsDescription: 'Click a variation to pick it as your favorite. Tick two to compare them.',
+    variationN: (n: number) => `Variation ${n}`,
+    pickFavorite: 'Pick as favorite',
+    compare: 'Compare',
+    downloadAll: 'Download All (.zip)',
   },
   id: {
     appTitle: 'Suite Kreatif Gemini',
@@ -92,8 +287,144 @@ const translations = {
     changeFile: 'Ganti file',
     describeVideo: '2. Deskripsikan Video Anda',
     videoPromptPlaceholder: 'cth., Kota futuristik di malam hari, dengan mobil terbang dan lampu neon...',
+    videoSettings: 'Pengaturan video',
+    model: 'Model',
+    historyModelDiffers: (model: string) => `Entri yang Anda buka dibuat dengan ${model}, yang bukan model yang dipilih.`,
+    resolution: 'Resolusi',
+    landscape: '16:9 Lanskap',
+    portrait: '9:16 Potret',
+    numberOfVideos: 'Jumlah video',
+    negativePrompt: 'Prompt negatif',
+    negativePromptPlaceholder: 'mis., buram, teks, tanda air',
+    videoN: (n: number) => `Video ${n}`,
     generateVideoBtn: 'Hasilkan Video',
     generatingVideo: 'Menghasilkan Video',
+    cancelGeneration: 'Batal',
+    cancelGenerationNote: 'Berhenti menunggu video ini. Pekerjaan yang sudah dikirim mungkin tetap ditagih.',
+    progressTitle: 'Kemajuan',
+    progressSubmitted: 'Pekerjaan dikirim',
+    progressResumed: 'Disambungkan kembali setelah memuat ulang',
+    progressPolling: 'Menghasilkan',
+    pollAttempt: (n: number) => `Pemeriksaan status #${n}`,
+    progressDone: 'Pembuatan selesai',
+    progressDownloading: 'Mengunduh',
+    elapsed: 'Berlalu',
+    jobQueue: 'Antrean',
+    concurrency: 'Jalankan bersamaan',
+    clearFinished: 'Hapus yang selesai',
+    queueEmpty: 'Tidak ada pekerjaan dalam antrean.',
+    jobQueued: 'Mengantre',
+    jobRunning: 'Berjalan',
+    jobRetrying: 'Mencoba ulang',
+    jobSucceeded: 'Selesai',
+    jobFailed: 'Gagal',
+    jobCanceled: 'Dibatalkan',
+    attemptNOfM: (n: number, m: number) => `Percobaan ${n} dari ${m}`,
+    moveUp: 'Pindah ke atas',
+    moveDown: 'Pindah ke bawah',
+    removeFromQueue: 'Hapus dari antrean',
+    startImageNotKept: 'Dilanjutkan setelah memuat ulang tanpa gambar awalnya, sehingga tidak dapat dikirim lagi. Tambahkan gambar dan buat video baru.',
+    batchRun: 'Jalankan Batch',
+    batchDescription: 'Impor daftar CSV atau JSON dengan prompt per baris serta kolom opsional base_image, mask, dan references yang menyebut gambar yang diunggah (pisahkan beberapa referensi dengan ";"). Baris tanpa gambar dasar memakai gambar dasar saat ini. Setiap baris ditambahkan ke antrean.',
+    batchListFile: 'Pilih file daftar',
+    batchImages: 'Tambah gambar',
+    batchRowsLoaded: (n: number) => `${n} baris`,
+    batchImagesLoaded: (n: number) => `${n} gambar dimuat`,
+    runBatch: 'Jalankan Batch',
+    cancelBatch: 'Batalkan Batch',
+    exportBatch: 'Ekspor Zip',
+    batchReset: 'Mulai ulang',
+    batchRowN: (n: number) => `Baris ${n}`,
+    batchSkipped: 'Dilewati',
+    errorBatchFile: 'Tidak dapat membaca daftar batch.',
+    errorBatchEmpty: 'Daftar tidak memiliki baris.',
+    errorBatchMissingImage: (name: string) => `Gambar "${name}" belum diunggah.`,
+    errorBatchMaskWithoutBase: 'Masker memerlukan gambar dasar.',
+    promptTemplates: 'Templat',
+    chooseTemplate: 'Pilih templat…',
+    noTemplates: 'Belum ada templat tersimpan',
+    useTemplate: 'Gunakan Templat',
+    deleteTemplate: 'Hapus templat',
+    importTemplates: 'Impor templat (JSON)',
+    exportTemplates: 'Ekspor templat (JSON)',
+    templateName: 'Nama templat',
+    saveAsTemplate: 'Simpan Prompt Saat Ini',
+    templateVariablesHint: 'Tulis {{nama}} di prompt untuk menambahkan variabel yang diisi saat templat digunakan.',
+    templateSaved: (name: string) => `"${name}" disimpan.`,
+    templatesImported: (n: number) => `${n} templat diimpor.`,
+    errorTemplateImport: 'File tidak berisi templat yang valid.',
+    enhanceStyle: 'Gaya',
+    enhanceStylePhotoreal: 'Fotorealistis',
+    enhanceStyleIllustration: 'Ilustrasi',
+    enhanceStyleCinematic: 'Sinematik',
+    enhanceStyleConcise: 'Ringkas',
+    enhanceSuggestions: 'Saran',
+    suggestionN: (n: number) => `Saran ${n}`,
+    useSuggestion: 'Gunakan ini',
+    suggestionInUse: 'Digunakan',
+    revertToOriginal: 'Kembalikan ke asli',
+    retrySuggestions: 'Saran baru',
+    enhanceDiffHint: 'Kata yang disorot ditambahkan, kata yang dicoret dihapus dari prompt Anda.',
+    errorSafety: 'Permintaan diblokir oleh filter keamanan. Harap sesuaikan prompt atau gambar Anda.',
+    errorSafetyCategories: (categories: string) => `Kategori yang ditandai: ${categories}`,
+    safetyHarassment: 'pelecehan',
+    safetyHateSpeech: 'ujaran kebencian',
+    safetySexuallyExplicit: 'konten seksual eksplisit',
+    safetyDangerousContent: 'konten berbahaya',
+    safetyCivicIntegrity: 'integritas sipil',
+    errorQuota: 'Kuota atau batas laju API tercapai. Tunggu sebentar lalu coba lagi.',
+    errorInvalidKey: 'Kunci API tidak ada atau tidak valid. Pilih kunci API yang valid lalu coba lagi.',
+    errorEmptyResponse: 'Model tidak mengembalikan hasil. Mencoba lagi sering membantu.',
+    errorTextInsteadOfImage: 'Model membalas dengan teks, bukan gambar:',
+    errorNetwork: 'Tidak dapat menjangkau server. Periksa koneksi Anda lalu coba lagi.',
+    errorEmptyPrompt: 'Masukkan prompt terlebih dahulu.',
+    errorGenerationFailed: 'Pembuatan gagal.',
+    retry: 'Coba lagi',
+    dismiss: 'Tutup',
+    requestKindEnhance: 'Peningkatan prompt',
+    requestKindImage: 'Permintaan gambar',
+    requestKindVideo: 'Pengiriman video',
+    requestKindVideoStatus: 'Pemeriksaan status video',
+    requestWaitingForRateLimit: (request: string, seconds: number) => `${request} menunggu batas permintaan per menit, dikirim dalam ${seconds} dtk.`,
+    requestRetrying: (request: string, cause: string, retry: number, max: number, seconds: number) => `${request} gagal (${cause}). Percobaan ulang ${retry} dari ${max} dalam ${seconds} dtk.`,
+    requestNetworkFailure: 'kesalahan jaringan',
+    includeModelText: 'Sertakan teks dari model',
+    includeModelTextHint: 'Menampilkan penjelasan model secara langsung saat ditulis dan memungkinkan model mengembalikan beberapa gambar, masing-masing dengan keterangan. Jumlah variasi tidak berlaku.',
+    modelResponse: 'Respons Model',
+    editMode: 'Mode pengeditan',
+    editModeSingle: 'Edit tunggal',
+    editModeChat: 'Percakapan',
+    editModeChatHint: 'Setiap pesan melanjutkan gambar dari giliran sebelumnya. Model dan rasio aspek tetap sama sampai Anda memulai percakapan baru.',
+    conversation: 'Percakapan',
+    conversationEmpty: 'Kirim pesan untuk memulai. Gambar dasar dan gambar referensi dilampirkan pada pesan pertama.',
+    conversationYou: 'Anda',
+    conversationModel: 'Model',
+    sendMessage: 'Kirim Pesan',
+    newConversation: 'Percakapan baru',
+    exportConversation: 'Ekspor (.zip)',
+    useAsBaseImage: 'Gunakan sebagai gambar dasar',
+    usage: 'Penggunaan & Biaya',
+    usageSession: 'Sesi ini',
+    usageDaily: 'Per hari',
+    usageModel: 'Model',
+    usageCalls: 'Panggilan',
+    usageInputTokens: 'Token masukan',
+    usageOutputTokens: 'Token keluaran',
+    usageImages: 'Gambar',
+    usageVideos: 'Video',
+    usageCost: 'Perkiraan biaya',
+    usageTotal: 'Total',
+    usageEmpty: 'Belum ada permintaan.',
+    usageUnpriced: (calls: number) => `${calls} panggilan ke model tanpa harga tidak termasuk dalam perkiraan biaya.`,
+    usageDailyBudget: 'Anggaran harian (USD)',
+    usageSessionBudget: 'Anggaran sesi (USD)',
+    usageNoLimit: 'Tanpa batas',
+    usageClearHistory: 'Hapus riwayat penggunaan',
+    usageEstimateNote: 'Biaya diperkirakan dari harga daftar dan dapat diubah dengan MODEL_PRICES. Tagihan sebenarnya ada di akun penagihan Anda. Sesi berlangsung sampai halaman dimuat ulang.',
+    usageDailyBudgetName: 'anggaran harian',
+    usageSessionBudgetName: 'anggaran sesi',
+    usageBudgetNearing: (budget: string, spent: string, limit: string) => `Anda telah memakai ${spent} dari ${budget} sebesar ${limit}.`,
+    usageBudgetExceeded: (budget: string, spent: string, limit: string) => `Batas ${budget} sebesar ${limit} sudah habis (terpakai ${spent}). Permintaan baru tetap akan dikirim.`,
     generatedVideo: 'Video Hasil',
     imageWillAppear: 'Gambar akan muncul di sini',
     videoWillAppear: 'Video akan muncul di sini',
@@ -103,6 +434,13 @@ const translations = {
     downloadVideo: 'Unduh Video',
     errorInvalidImage: 'Harap unggah file gambar yang valid (PNG, JPG, dll.).',
     errorReadFile: 'Gagal membaca file gambar.',
+    errorImageDecode: 'Browser Anda tidak dapat membaca format gambar ini. Harap ubah ke PNG atau JPEG terlebih dahulu.',
+    errorOpenKeySelection: 'Gagal membuka dialog pemilihan kunci API.',
+    originalSize: 'Asli',
+    processedSize: 'Diproses',
+    uploadFormat: 'Format unggahan',
+    uploadFormatAuto: 'Otomatis',
+    uploadFormatHint: 'Format tujuan konversi gambar yang diunggah sebelum dikirim. Otomatis mempertahankan PNG dan WebP dan mengubah format lain menjadi JPEG.',
     errorMaxRefImages: (max: number) => `Anda hanya dapat mengunggah maksimal ${max} gambar referensi.`,
     errorEnhanceFailed: 'Gagal meningkatkan prompt.',
     errorPromptEmpty: 'Harap berikan prompt untuk menghasilkan gambar.',
@@ -116,14 +454,66 @@ const translations = {
     noMask: 'Tanpa Masker',
     maskDescription: 'AI akan fokus mengedit pada area yang ditutupi masker.',
     noMaskDescription: 'Terapkan masker untuk mengontrol area editan.',
+    uploadMask: 'Unggah Masker',
+    downloadMask: 'Unduh Masker',
+    cropImage: 'Pangkas & putar',
+    aspectRatio: 'Rasio aspek',
+    cropFree: 'Bebas',
+    rotateLeft: 'Putar ke kiri',
+    rotateRight: 'Putar ke kanan',
+    flipHorizontal: 'Balik H',
+    flipVertical: 'Balik V',
+    resetCrop: 'Atur ulang',
+    applyCrop: 'Terapkan',
+    adjustedStep: 'Dipangkas / diputar',
+    errorInvalidMask: 'Gagal membaca file masker. Harap gunakan PNG atau format gambar lain.',
     maskingEditorTitle: 'Alat Masking',
     brushSize: 'Ukuran Kuas',
     brush: 'Kuas',
-    eraser: 'Penghapus',
+    rectangleTool: 'Persegi',
+    ellipseTool: 'Elips',
+    lassoTool: 'Laso',
+    magicWandTool: 'Tongkat Ajaib',
+    tolerance: 'Toleransi',
+    addToMask: 'Tambah',
+    subtractFromMask: 'Kurangi',
+    hardness: 'Kekerasan',
+    feather: 'Feather',
+    growMask: 'Perbesar',
+    shrinkMask: 'Perkecil',
+    growShrinkAmount: 'Jumlah perbesar/perkecil (px)',
+    grayscaleMask: 'Masker lembut (skala abu-abu)',
     invertMask: 'Balikkan',
     clearMask: 'Bersihkan',
     saveMask: 'Simpan Masker',
     closeEditor: 'Tutup',
+    undo: 'Urungkan',
+    redo: 'Ulangi',
+    resetView: 'Atur Ulang Tampilan',
+    // History translations
+    history: 'Riwayat',
+    searchHistory: 'Cari berdasarkan prompt...',
+    historyEmpty: 'Hasil generasi Anda akan disimpan di sini.',
+    historyNoMatches: 'Tidak ada entri yang cocok dengan pencarian Anda.',
+    openEntry: 'Buka',
+    deleteEntry: 'Hapus',
+    errorHistoryLoad: 'Gagal memuat riwayat generasi.',
+    // Edit tree translations
+    continueEditing: 'Lanjutkan Mengedit',
+    editSteps: 'Langkah Edit',
+    editStepsDescription: 'Kembali ke langkah mana pun dan hasilkan lagi untuk membuat cabang baru.',
+    uploadedStep: 'Gambar yang diunggah',
+    // Variation translations
+    numberOfVariations: 'Variasi',
+    aspectRatioAuto: 'Otomatis',
+    outputFormat: 'Format keluaran',
+    outputFormatOriginal: 'Sesuai hasil',
+    variations: 'Variasi',
+    variationsDescription: 'Klik variasi untuk memilihnya sebagai favorit. Centang dua untuk membandingkannya.',
+    variationN: (n: number) => `Variasi ${n}`,
+    pickFavorite: 'Pilih sebagai favorit',
+    compare: 'Bandingkan',
+    downloadAll: 'Unduh Semua (.zip)',
   },
   zh: {
     appTitle: 'Gemini 创意套件',
@@ -155,8 +545,144 @@ const translations = {
     changeFile: '更改文件',
     describeVideo: '2. 描述您的视频',
     videoPromptPlaceholder: '例如，未来城市的夜晚，有飞行汽车和霓虹灯...',
+    videoSettings: '视频设置',
+    model: '模型',
+    historyModelDiffers: (model: string) => `打开的记录由 ${model} 生成，与当前所选模型不同。`,
+    resolution: '分辨率',
+    landscape: '16:9 横屏',
+    portrait: '9:16 竖屏',
+    numberOfVideos: '视频数量',
+    negativePrompt: '反向提示',
+    negativePromptPlaceholder: '例如：模糊、文字、水印',
+    videoN: (n: number) => `视频 ${n}`,
     generateVideoBtn: '生成视频',
     generatingVideo: '正在生成视频',
+    cancelGeneration: '取消',
+    cancelGenerationNote: '停止等待此视频。已提交的任务仍可能产生费用。',
+    progressTitle: '进度',
+    progressSubmitted: '任务已提交',
+    progressResumed: '刷新后已重新连接',
+    progressPolling: '正在生成',
+    pollAttempt: (n: number) => `第 ${n} 次状态检查`,
+    progressDone: '生成完成',
+    progressDownloading: '正在下载',
+    elapsed: '已用时间',
+    jobQueue: '任务队列',
+    concurrency: '同时运行',
+    clearFinished: '清除已结束',
+    queueEmpty: '队列中没有任务。',
+    jobQueued: '排队中',
+    jobRunning: '运行中',
+    jobRetrying: '重试中',
+    jobSucceeded: '已完成',
+    jobFailed: '失败',
+    jobCanceled: '已取消',
+    attemptNOfM: (n: number, m: number) => `第 ${n}/${m} 次尝试`,
+    moveUp: '上移',
+    moveDown: '下移',
+    removeFromQueue: '从队列中移除',
+    startImageNotKept: '此任务在刷新页面后恢复，未保留起始图像，因此无法重新提交。请重新添加图像并生成新视频。',
+    batchRun: '批量运行',
+    batchDescription: '导入 CSV 或 JSON 列表，每行一个提示，可选的 base_image、mask 和 references 列填写已上传图像的文件名（多个参考图像用“;”分隔）。未指定基础图像的行使用当前基础图像。每一行都会加入任务队列。',
+    batchListFile: '选择列表文件',
+    batchImages: '添加图像',
+    batchRowsLoaded: (n: number) => `${n} 行`,
+    batchImagesLoaded: (n: number) => `已加载 ${n} 张图像`,
+    runBatch: '运行批量任务',
+    cancelBatch: '取消批量任务',
+    exportBatch: '导出 Zip',
+    batchReset: '重新开始',
+    batchRowN: (n: number) => `第 ${n} 行`,
+    batchSkipped: '已跳过',
+    errorBatchFile: '无法读取批量列表。',
+    errorBatchEmpty: '列表中没有任何行。',
+    errorBatchMissingImage: (name: string) => `未上传图像“${name}”。`,
+    errorBatchMaskWithoutBase: '蒙版需要基础图像。',
+    promptTemplates: '模板',
+    chooseTemplate: '选择模板…',
+    noTemplates: '尚无已保存的模板',
+    useTemplate: '使用模板',
+    deleteTemplate: '删除模板',
+    importTemplates: '导入模板 (JSON)',
+    exportTemplates: '导出模板 (JSON)',
+    templateName: '模板名称',
+    saveAsTemplate: '保存当前提示',
+    templateVariablesHint: '在提示中写入 {{名称}} 即可添加变量，使用模板时再填写。',
+    templateSaved: (name: string) => `已保存“${name}”。`,
+    templatesImported: (n: number) => `已导入 ${n} 个模板。`,
+    errorTemplateImport: '文件中没有有效的模板。',
+    enhanceStyle: '风格',
+    enhanceStylePhotoreal: '写实',
+    enhanceStyleIllustration: '插画',
+    enhanceStyleCinematic: '电影感',
+    enhanceStyleConcise: '简洁',
+    enhanceSuggestions: '建议',
+    suggestionN: (n: number) => `建议 ${n}`,
+    useSuggestion: '使用此建议',
+    suggestionInUse: '使用中',
+    revertToOriginal: '恢复原始提示',
+    retrySuggestions: '重新生成建议',
+    enhanceDiffHint: '高亮的词为新增内容，删除线的词已从原提示中移除。',
+    errorSafety: '请求被安全过滤器拦截。请调整提示或图像。',
+    errorSafetyCategories: (categories: string) => `触发的类别：${categories}`,
+    safetyHarassment: '骚扰',
+    safetyHateSpeech: '仇恨言论',
+    safetySexuallyExplicit: '色情内容',
+    safetyDangerousContent: '危险内容',
+    safetyCivicIntegrity: '公民诚信',
+    errorQuota: '已达到 API 配额或速率限制。请稍候再试。',
+    errorInvalidKey: 'API 密钥缺失或无效。请选择有效的 API 密钥后重试。',
+    errorEmptyResponse: '模型没有返回结果。重试通常可以解决。',
+    errorTextInsteadOfImage: '模型返回了文本而不是图像：',
+    errorNetwork: '无法连接到服务器。请检查网络连接后重试。',
+    errorEmptyPrompt: '请先输入提示。',
+    errorGenerationFailed: '生成失败。',
+    retry: '重试',
+    dismiss: '关闭',
+    requestKindEnhance: '提示增强',
+    requestKindImage: '图像请求',
+    requestKindVideo: '视频提交',
+    requestKindVideoStatus: '视频状态检查',
+    requestWaitingForRateLimit: (request: string, seconds: number) => `${request}正在等待每分钟请求限额，将在 ${seconds} 秒后发送。`,
+    requestRetrying: (request: string, cause: string, retry: number, max: number, seconds: number) => `${request}失败（${cause}），将在 ${seconds} 秒后进行第 ${retry}/${max} 次重试。`,
+    requestNetworkFailure: '网络错误',
+    includeModelText: '包含模型的文字说明',
+    includeModelTextHint: '以流式方式实时显示模型的说明文字，模型可返回多张图像，每张都附有说明。此模式下变体数量设置不适用。',
+    modelResponse: '模型回复',
+    editMode: '编辑模式',
+    editModeSingle: '单次编辑',
+    editModeChat: '对话',
+    editModeChatHint: '每条消息都会在之前轮次的图片基础上继续修改。在开始新对话之前，模型和宽高比保持不变。',
+    conversation: '对话',
+    conversationEmpty: '发送一条消息开始对话。基础图片和参考图片会随第一条消息一起发送。',
+    conversationYou: '你',
+    conversationModel: '模型',
+    sendMessage: '发送消息',
+    newConversation: '新对话',
+    exportConversation: '导出 (.zip)',
+    useAsBaseImage: '用作基础图片',
+    usage: '用量与费用',
+    usageSession: '本次会话',
+    usageDaily: '按天',
+    usageModel: '模型',
+    usageCalls: '调用次数',
+    usageInputTokens: '输入 token',
+    usageOutputTokens: '输出 token',
+    usageImages: '图像',
+    usageVideos: '视频',
+    usageCost: '预估费用',
+    usageTotal: '合计',
+    usageEmpty: '暂无请求。',
+    usageUnpriced: (calls: number) => `有 ${calls} 次调用使用了未定价的模型，未计入预估费用。`,
+    usageDailyBudget: '每日预算 (USD)',
+    usageSessionBudget: '会话预算 (USD)',
+    usageNoLimit: '不限',
+    usageClearHistory: '清除用量记录',
+    usageEstimateNote: '费用按公开价格估算，可通过 MODEL_PRICES 修改。实际费用以您的结算账户为准。会话在页面重新加载前一直有效。',
+    usageDailyBudgetName: '每日预算',
+    usageSessionBudgetName: '会话预算',
+    usageBudgetNearing: (budget: string, spent: string, limit: string) => `已使用 ${spent}，${budget}为 ${limit}。`,
+    usageBudgetExceeded: (budget: string, spent: string, limit: string) => `${budget} ${limit} 已用完（已使用 ${spent}）。新的请求仍会发送。`,
     generatedVideo: '生成的视频',
     imageWillAppear: '图片将显示在此处',
     videoWillAppear: '视频将显示在此处',
@@ -166,6 +692,13 @@ const translations = {
     downloadVideo: '下载视频',
     errorInvalidImage: '请上传有效的图像文件（PNG、JPG 等）。',
     errorReadFile: '读取图像文件失败。',
+    errorImageDecode: '您的浏览器无法解码此图像格式，请先将其转换为 PNG 或 JPEG。',
+    errorOpenKeySelection: '无法打开 API 密钥选择对话框。',
+    originalSize: '原始',
+    processedSize: '处理后',
+    uploadFormat: '上传格式',
+    uploadFormatAuto: '自动',
+    uploadFormatHint: '上传的图像在发送前转换为该格式。“自动”保留 PNG 和 WebP，其他格式转换为 JPEG。',
     errorMaxRefImages: (max: number) => `您最多只能上传 ${max} 张参考图片。`,
     errorEnhanceFailed: '增强提示失败。',
     errorPromptEmpty: '请输入提示以生成图像。',
@@ -179,14 +712,66 @@ const translations = {
     noMask: '无蒙版',
     maskDescription: 'AI 将专注于编辑蒙版区域。',
     noMaskDescription: '应用蒙版以控制编辑区域。',
+    uploadMask: '上传蒙版',
+    downloadMask: '下载蒙版',
+    cropImage: '裁剪和旋转',
+    aspectRatio: '宽高比',
+    cropFree: '自由',
+    rotateLeft: '向左旋转',
+    rotateRight: '向右旋转',
+    flipHorizontal: '水平翻转',
+    flipVertical: '垂直翻转',
+    resetCrop: '重置',
+    applyCrop: '应用',
+    adjustedStep: '已裁剪/旋转',
+    errorInvalidMask: '读取蒙版文件失败。请使用 PNG 或其他图像格式。',
     maskingEditorTitle: '蒙版工具',
     brushSize: '画笔大小',
     brush: '画笔',
-    eraser: '橡皮擦',
+    rectangleTool: '矩形',
+    ellipseTool: '椭圆',
+    lassoTool: '套索',
+    magicWandTool: '魔棒',
+    tolerance: '容差',
+    addToMask: '添加',
+    subtractFromMask: '减去',
+    hardness: '硬度',
+    feather: '羽化',
+    growMask: '扩展',
+    shrinkMask: '收缩',
+    growShrinkAmount: '扩展/收缩量 (像素)',
+    grayscaleMask: '柔和 (灰度) 蒙版',
     invertMask: '反转',
     clearMask: '清除',
     saveMask: '保存蒙版',
     closeEditor: '关闭',
+    undo: '撤销',
+    redo: '重做',
+    resetView: '重置视图',
+    // History translations
+    history: '历史记录',
+    searchHistory: '按提示搜索...',
+    historyEmpty: '您生成的内容将保存在这里。',
+    historyNoMatches: '没有与搜索匹配的记录。',
+    openEntry: '打开',
+    deleteEntry: '删除',
+    errorHistoryLoad: '加载生成历史失败。',
+    // Edit tree translations
+    continueEditing: '继续编辑',
+    editSteps: '编辑步骤',
+    editStepsDescription: '跳回任意步骤并重新生成，即可创建新的分支。',
+    uploadedStep: '上传的图像',
+    // Variation translations
+    numberOfVariations: '变体数量',
+    aspectRatioAuto: '自动',
+    outputFormat: '输出格式',
+    outputFormatOriginal: '保持原样',
+    variations: '变体',
+    variationsDescription: '点击变体将其设为首选。勾选两个变体即可进行对比。',
+    variationN: (n: number) => `变体 ${n}`,
+    pickFavorite: '设为首选',
+    compare: '对比',
+    downloadAll: '全部下载 (.zip)',
   },
 };
 
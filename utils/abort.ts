@@ -0,0 +1,44 @@
+// Helpers for AbortSignal-aware async code. Aborts always surface as a DOMException
+// named "AbortError" so callers can tell them apart from real failures.
+
+export const createAbortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+    error instanceof DOMException && error.name === 'AbortError';
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) throw createAbortError();
+};
+
+export const abortableDelay = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+};
+
+// Stops waiting for `promise` when the signal aborts. The work behind the promise
+// keeps going; its result or error is simply ignored.
+export const raceWithAbort = <T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> => {
+    if (!signal) return promise;
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => reject(createAbortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+};
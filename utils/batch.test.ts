@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { batchImageKey, parseBatchFile } from './batch';
+
+const row = (prompt: string, rest: Partial<{ baseImage: string; mask: string; references: string[] }> = {}) =>
+  ({ prompt, baseImage: null, mask: null, references: [], ...rest });
+
+describe('parseBatchFile with CSV', () => {
+  it('keeps commas, newlines and doubled quotes inside quoted cells', () => {
+    const csv = 'prompt,base_image\r\n"Snow, then ""fog""",house.jpg\r\n"Line one\nline two",\r\n';
+    expect(parseBatchFile(csv, 'list.csv')).toEqual([
+      row('Snow, then "fog"', { baseImage: 'house.jpg' }),
+      row('Line one\nline two'),
+    ]);
+  });
+
+  it('matches column names loosely and splits references', () => {
+    const csv = '\uFEFFPrompt,Base,Mask_Image,Refs\nA cat,cat.png,cat-mask.png,style.png; palette.png|extra.png\n';
+    expect(parseBatchFile(csv, 'list.csv')).toEqual([
+      row('A cat', { baseImage: 'cat.png', mask: 'cat-mask.png', references: ['style.png', 'palette.png', 'extra.png'] }),
+    ]);
+  });
+
+  it('ignores unknown columns and leaves missing cells empty', () => {
+    const csv = 'notes,prompt,mask\nignored,A dog\nalso ignored,A bird,bird.png,extra cell\n';
+    expect(parseBatchFile(csv, 'list.csv')).toEqual([row('A dog'), row('A bird', { mask: 'bird.png' })]);
+  });
+
+  it('skips empty rows', () => {
+    const csv = 'prompt,mask\n\nA dog,\n , \n\nA bird,\n';
+    expect(parseBatchFile(csv, 'list.csv')).toEqual([row('A dog'), row('A bird')]);
+  });
+
+  it('rejects a file without a prompt column', () => {
+    expect(() => parseBatchFile('text,mask\nA dog,dog.png\n', 'list.csv')).toThrow('no "prompt" column');
+  });
+
+  it('rejects an empty file', () => {
+    expect(() => parseBatchFile('\n\n', 'list.csv')).toThrow('empty');
+  });
+});
+
+describe('parseBatchFile with JSON', () => {
+  it('reads an array of rows, strings included', () => {
+    const json = JSON.stringify([
+      { prompt: ' A cat ', base_image: 'cat.png', references: ['a.png', ' ', 'b.png'], notes: 'ignored' },
+      'A dog',
+      { prompt: 'A bird', refs: 'c.png;d.png', mask: '' },
+    ]);
+    expect(parseBatchFile(json, 'list.json')).toEqual([
+      row('A cat', { baseImage: 'cat.png', references: ['a.png', 'b.png'] }),
+      row('A dog'),
+      row('A bird', { references: ['c.png', 'd.png'] }),
+    ]);
+  });
+
+  it('reads an object with a rows array, whatever the file is called', () => {
+    expect(parseBatchFile('{"rows": [{"prompt": "A cat"}]}', 'list.txt')).toEqual([row('A cat')]);
+  });
+
+  it('keeps empty rows, to be reported when the batch runs', () => {
+    expect(parseBatchFile('[{}, null, {"prompt": ""}]', 'list.json')).toEqual([row(''), row(''), row('')]);
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseBatchFile('[{"prompt": "A cat"', 'list.json')).toThrow(SyntaxError);
+  });
+
+  it('rejects JSON that is not a list of rows', () => {
+    expect(() => parseBatchFile('{"prompt": "A cat"}', 'list.json')).toThrow('"rows" array');
+  });
+});
+
+describe('batchImageKey', () => {
+  it('ignores folders and case', () => {
+    expect(batchImageKey('Images\\Sub/House.JPG ')).toBe('house.jpg');
+  });
+});
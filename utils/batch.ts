@@ -0,0 +1,112 @@
+// Batch lists for the image studio. A list is a CSV file with a header row or a JSON
+// array of objects; every row has a prompt and may name a base image, a mask and
+// reference images by file name.
+//
+//   prompt,base_image,mask,references
+//   "Make it snow",house.jpg,,style.png;palette.png
+
+export interface BatchRow {
+  prompt: string;
+  baseImage: string | null;
+  mask: string | null;
+  references: string[];
+}
+
+// Accepted spellings of each column or JSON field, compared case-insensitively.
+const FIELD_NAMES: Record<keyof BatchRow, string[]> = {
+  prompt: ['prompt'],
+  baseImage: ['base_image', 'baseimage', 'base', 'image'],
+  mask: ['mask', 'mask_image', 'maskimage'],
+  references: ['references', 'reference_images', 'referenceimages', 'refs'],
+};
+
+// CSV cells hold several references separated by semicolons or pipes.
+const splitReferences = (value: string): string[] =>
+  value.split(/[;|]/).map(name => name.trim()).filter(Boolean);
+
+const fieldFor = (name: string): keyof BatchRow | null => {
+  const normalized = name.trim().toLowerCase();
+  const match = (Object.keys(FIELD_NAMES) as (keyof BatchRow)[]).find(field => FIELD_NAMES[field].includes(normalized));
+  return match ?? null;
+};
+
+// RFC 4180 style: quoted cells may contain commas, newlines and doubled quotes.
+const parseCsvRecords = (text: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(cell); cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(cell); cell = '';
+      records.push(record); record = [];
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || record.length > 0) { record.push(cell); records.push(record); }
+  return records.filter(cells => cells.some(value => value.trim()));
+};
+
+const parseCsv = (text: string): BatchRow[] => {
+  const [header, ...records] = parseCsvRecords(text.replace(/^﻿/, ''));
+  if (!header) throw new Error('The CSV file is empty.');
+  const fields = header.map(fieldFor);
+  if (!fields.includes('prompt')) throw new Error('The CSV file has no "prompt" column.');
+  return records.map(cells => {
+    const row: BatchRow = { prompt: '', baseImage: null, mask: null, references: [] };
+    cells.forEach((value, index) => {
+      const field = fields[index];
+      const trimmed = value.trim();
+      if (field === 'references') row.references = splitReferences(trimmed);
+      else if (field === 'prompt') row.prompt = trimmed;
+      else if (field) row[field] = trimmed || null;
+    });
+    return row;
+  });
+};
+
+const parseJson = (text: string): BatchRow[] => {
+  const data = JSON.parse(text);
+  const items = Array.isArray(data) ? data : data?.rows;
+  if (!Array.isArray(items)) throw new Error('The JSON file must be an array of rows or an object with a "rows" array.');
+  return items.map((item: unknown) => {
+    const row: BatchRow = { prompt: '', baseImage: null, mask: null, references: [] };
+    if (typeof item === 'string') {
+      row.prompt = item.trim();
+      return row;
+    }
+    if (!item || typeof item !== 'object') return row;
+    Object.entries(item).forEach(([key, value]) => {
+      const field = fieldFor(key);
+      if (field === 'references') {
+        row.references = Array.isArray(value) ? value.map(String).map(name => name.trim()).filter(Boolean) : splitReferences(String(value ?? ''));
+      } else if (field === 'prompt') {
+        row.prompt = String(value ?? '').trim();
+      } else if (field) {
+        row[field] = value ? String(value).trim() || null : null;
+      }
+    });
+    return row;
+  });
+};
+
+// Throws when the file as a whole cannot be read; rows with problems are returned
+// as they are and reported when the batch runs.
+export const parseBatchFile = (text: string, fileName: string): BatchRow[] => {
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  return isJson ? parseJson(text) : parseCsv(text);
+};
+
+// Images are matched by file name, ignoring case and any folder in the list.
+export const batchImageKey = (name: string): string => name.split(/[\\/]/).pop()!.trim().toLowerCase();
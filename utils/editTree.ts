@@ -0,0 +1,38 @@
+import type { ImageFile } from '../App';
+
+// One step in the studio's edit history. Roots are uploaded or text-generated images;
+// every generation made from a node's image becomes a child of that node. Children
+// without a prompt are manual adjustments such as crops.
+export interface EditNode {
+  id: string;
+  parentId: string | null;
+  prompt: string | null;
+  image: ImageFile;
+  // What the model wrote about the image, when text output was requested.
+  caption?: string;
+  createdAt: number;
+}
+
+export const createEditNode = (image: ImageFile, parentId: string | null, prompt: string | null, caption?: string): EditNode => ({
+  id: crypto.randomUUID(),
+  parentId,
+  prompt,
+  image,
+  ...(caption && { caption }),
+  createdAt: Date.now(),
+});
+
+export const getChildNodes = (nodes: EditNode[], parentId: string | null): EditNode[] =>
+  nodes.filter(node => node.parentId === parentId);
+
+// Ids of the node and all of its ancestors, used to highlight the active branch.
+export const getPathIds = (nodes: EditNode[], nodeId: string | null): Set<string> => {
+  const path = new Set<string>();
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  let current = nodeId ? byId.get(nodeId) : undefined;
+  while (current && !path.has(current.id)) {
+    path.add(current.id);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
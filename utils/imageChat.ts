@@ -0,0 +1,44 @@
+import type { ImageStreamPart } from '../services/generationProvider';
+import { dataURLtoFile, extensionForDataUrl } from './imageFile';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+
+// One message in a conversational editing session. User turns hold the instruction
+// and any images attached to it; model turns hold the reply as it was streamed.
+export type ChatTurnPart = { type: 'text'; text: string } | { type: 'image'; dataUrl: string };
+
+export interface ChatTurn {
+  id: string;
+  role: 'user' | 'model';
+  parts: ChatTurnPart[];
+  createdAt: number;
+}
+
+export const createChatTurn = (role: ChatTurn['role'], parts: ChatTurnPart[]): ChatTurn => ({
+  id: crypto.randomUUID(),
+  role,
+  parts,
+  createdAt: Date.now(),
+});
+
+export const toChatTurnParts = (parts: ImageStreamPart[]): ChatTurnPart[] =>
+  parts.map(part => part.type === 'text'
+    ? part
+    : { type: 'image', dataUrl: `data:${part.image.mimeType};base64,${part.image.base64Data}` });
+
+// A zip with `conversation.json` describing every turn in order and the images it
+// refers to under `images/`, named by turn number.
+export const exportChatTurns = async (turns: ChatTurn[], model: string | undefined): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const conversation = turns.map((turn, turnIndex) => {
+    const text = turn.parts.flatMap(part => part.type === 'text' ? [part.text] : []).join('\n\n');
+    const images = turn.parts.flatMap(part => part.type === 'image' ? [part.dataUrl] : []).map((dataUrl, imageIndex) => {
+      const name = `images/turn-${String(turnIndex + 1).padStart(2, '0')}-${imageIndex + 1}.${extensionForDataUrl(dataUrl)}`;
+      entries.push({ name, data: dataURLtoFile(dataUrl, name) });
+      return name;
+    });
+    return { role: turn.role, createdAt: new Date(turn.createdAt).toISOString(), text, images };
+  });
+  entries.unshift({ name: 'conversation.json', data: JSON.stringify({ exportedAt: new Date().toISOString(), model: model ?? null, turns: conversation }, null, 2) });
+  return createZip(entries);
+};
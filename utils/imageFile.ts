@@ -0,0 +1,29 @@
+import type { ImageFile } from '../App';
+import type { InlineImage } from '../services/generationProvider';
+
+export const dataURLtoFile = (dataurl: string, filename: string): File => {
+    const arr = dataurl.split(',');
+    const mimeMatch = arr[0].match(/:(.*?);/);
+    if (!mimeMatch) {
+        throw new Error('Invalid data URL');
+    }
+    const mime = mimeMatch[1];
+    const bstr = atob(arr[1]);
+    let n = bstr.length;
+    const u8arr = new Uint8Array(n);
+    while (n--) {
+        u8arr[n] = bstr.charCodeAt(n);
+    }
+    return new File([u8arr], filename, { type: mime });
+};
+
+// File extension matching a data URL's mime type, e.g. `jpg` for image/jpeg.
+export const extensionForDataUrl = (dataurl: string): string =>
+    dataurl.match(/^data:image\/(\w+)/)?.[1]?.replace('jpeg', 'jpg') ?? 'png';
+
+export const dataURLtoImageFile = (dataurl: string, filename: string): ImageFile => ({
+    file: dataURLtoFile(dataurl, filename),
+    base64: dataurl,
+});
+
+export const toInlineImage = (image: ImageFile): InlineImage => ({ base64Data: image.base64.split(',')[1], mimeType: image.file.type });
@@ -0,0 +1,147 @@
+import type { ImageFile } from '../App';
+import type { InlineImage } from '../services/generationProvider';
+import { loadImageElement } from './mask';
+
+// Uploaded images are redrawn onto a canvas before they are sent anywhere. Drawing
+// applies the EXIF orientation and re-encoding drops all metadata, so the model
+// always receives an upright, reasonably sized PNG, JPEG or WebP.
+
+export type OutputMimeType = 'image/png' | 'image/jpeg' | 'image/webp';
+
+export const OUTPUT_MIME_TYPES: OutputMimeType[] = ['image/png', 'image/jpeg', 'image/webp'];
+
+export interface PreprocessOptions {
+    // Longest side of the output in pixels; larger images are scaled down.
+    maxDimension?: number;
+    // Output format. By default PNG and WebP are kept and everything else becomes JPEG.
+    mimeType?: OutputMimeType;
+    // Encoder quality (0-1) for JPEG and WebP.
+    quality?: number;
+}
+
+export interface ImageSizeInfo {
+    bytes: number;
+    width: number;
+    height: number;
+    mimeType: string;
+}
+
+const parsedMaxDimension = Number(process.env.MAX_IMAGE_DIMENSION);
+export const DEFAULT_MAX_DIMENSION = parsedMaxDimension > 0 ? parsedMaxDimension : 2048;
+const DEFAULT_QUALITY = 0.92;
+
+const EXTENSIONS: Record<OutputMimeType, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+};
+
+export const outputTypeFor = (inputType: string): OutputMimeType =>
+    inputType === 'image/png' || inputType === 'image/webp' ? inputType : 'image/jpeg';
+
+// Browsers that support `imageOrientation` rotate the bitmap according to EXIF;
+// the <img> fallback gets the same treatment from the default `image-orientation: from-image`.
+const decodeImage = async (file: File): Promise<{ source: CanvasImageSource; width: number; height: number; release: () => void }> => {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+            return { source: bitmap, width: bitmap.width, height: bitmap.height, release: () => bitmap.close() };
+        } catch {
+            // Fall through to the <img> decoder, which handles a few more formats in some browsers.
+        }
+    }
+    const url = URL.createObjectURL(file);
+    try {
+        const img = await loadImageElement(url);
+        return { source: img, width: img.naturalWidth, height: img.naturalHeight, release: () => URL.revokeObjectURL(url) };
+    } catch (err) {
+        URL.revokeObjectURL(url);
+        throw err;
+    }
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: OutputMimeType, quality: number): Promise<Blob> => {
+    return new Promise((resolve, reject) => {
+        canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Failed to encode the image.')), mimeType, quality);
+    });
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.readAsDataURL(blob);
+        reader.onload = () => resolve(reader.result as string);
+        reader.onerror = (error) => reject(error);
+    });
+};
+
+// Encodes a canvas as a new image file named after `fileName` with the matching extension.
+export const canvasToImageFile = async (canvas: HTMLCanvasElement, fileName: string, mimeType: OutputMimeType, quality = DEFAULT_QUALITY): Promise<ImageFile> => {
+    const blob = await canvasToBlob(canvas, mimeType, quality);
+    // Some browsers silently fall back to PNG for formats they cannot encode.
+    const actualType = (blob.type || mimeType) as OutputMimeType;
+    const baseName = fileName.replace(/\.[^.]*$/, '') || 'image';
+    return {
+        file: new File([blob], `${baseName}.${EXTENSIONS[actualType] ?? 'png'}`, { type: actualType }),
+        base64: await blobToDataUrl(blob),
+    };
+};
+
+export const preprocessImageFile = async (file: File, options: PreprocessOptions = {}): Promise<ImageFile> => {
+    const { maxDimension = DEFAULT_MAX_DIMENSION, quality = DEFAULT_QUALITY } = options;
+    const mimeType = options.mimeType ?? outputTypeFor(file.type);
+    const decoded = await decodeImage(file);
+    try {
+        const scale = Math.min(1, maxDimension / Math.max(decoded.width, decoded.height));
+        const width = Math.max(1, Math.round(decoded.width * scale));
+        const height = Math.max(1, Math.round(decoded.height * scale));
+
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D context is not available.');
+        if (mimeType === 'image/jpeg') {
+            // JPEG has no alpha channel; flatten onto white instead of black.
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, width, height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(decoded.source, 0, 0, width, height);
+
+        const processed = await canvasToImageFile(canvas, file.name, mimeType, quality);
+        return {
+            ...processed,
+            sizeInfo: {
+                original: { bytes: file.size, width: decoded.width, height: decoded.height, mimeType: file.type },
+                processed: { bytes: processed.file.size, width, height, mimeType: processed.file.type },
+            },
+        };
+    } finally {
+        decoded.release();
+    }
+};
+
+// Re-encodes base64 image data in another format, e.g. a PNG result the user wants as JPEG.
+export const convertImageData = async (image: InlineImage, mimeType: OutputMimeType, quality = DEFAULT_QUALITY): Promise<InlineImage> => {
+    const img = await loadImageElement(`data:${image.mimeType};base64,${image.base64Data}`);
+    const canvas = document.createElement('canvas');
+    canvas.width = img.naturalWidth;
+    canvas.height = img.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    if (mimeType === 'image/jpeg') {
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+    }
+    ctx.drawImage(img, 0, 0);
+    const dataUrl = await blobToDataUrl(await canvasToBlob(canvas, mimeType, quality));
+    const [header, base64Data] = dataUrl.split(',');
+    return { base64Data, mimeType: header.match(/^data:(.*?);/)?.[1] ?? mimeType };
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
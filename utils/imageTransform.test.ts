@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { IDENTITY_TRANSFORM, rotateTransform } from './imageTransform';
+import type { ImageTransform } from './imageTransform';
+
+type Point = [number, number];
+
+// A clockwise quarter turn on screen, where y points down.
+const turnClockwise = ([x, y]: Point): Point => [-y, x];
+
+// Where a point of the source image ends up, in the order `transformImageCanvas`
+// draws it: the turns first, then the flips.
+const place = ({ quarterTurns, flipHorizontal, flipVertical }: ImageTransform, point: Point): Point => {
+  let [x, y] = point;
+  for (let turn = 0; turn < quarterTurns; turn++) [x, y] = turnClockwise([x, y]);
+  return [flipHorizontal ? -x : x, flipVertical ? -y : y];
+};
+
+const CORNER: Point = [3, 1];
+
+describe('rotateTransform', () => {
+  it.each([
+    ['no flip', IDENTITY_TRANSFORM],
+    ['a horizontal flip', { ...IDENTITY_TRANSFORM, flipHorizontal: true }],
+    ['a vertical flip', { ...IDENTITY_TRANSFORM, flipVertical: true }],
+    ['both flips', { ...IDENTITY_TRANSFORM, flipHorizontal: true, flipVertical: true }],
+    ['a turn and a flip', { quarterTurns: 1, flipHorizontal: true, flipVertical: false }],
+  ])('turns the image as shown clockwise after %s', (_name, transform) => {
+    expect(place(rotateTransform(transform, 1), CORNER)).toEqual(turnClockwise(place(transform, CORNER)));
+  });
+
+  it('turns the image as shown counter-clockwise after a flip', () => {
+    const flipped = { ...IDENTITY_TRANSFORM, flipHorizontal: true };
+    const turned = rotateTransform(flipped, -1);
+    expect(turnClockwise(place(turned, CORNER))).toEqual(place(flipped, CORNER));
+  });
+
+  it('keeps the turns between 0 and 3', () => {
+    expect(rotateTransform(IDENTITY_TRANSFORM, -1).quarterTurns).toBe(3);
+    expect(rotateTransform({ ...IDENTITY_TRANSFORM, quarterTurns: 3 }, 1).quarterTurns).toBe(0);
+    expect(rotateTransform({ ...IDENTITY_TRANSFORM, flipVertical: true }, 1).quarterTurns).toBe(3);
+  });
+});
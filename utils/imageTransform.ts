@@ -0,0 +1,89 @@
+// Geometry for the crop tool. Rotation and flips are applied first; crop rectangles
+// are in the pixel space of the rotated/flipped image.
+
+export interface CropRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface ImageTransform {
+    // Clockwise quarter turns, 0-3. The flips apply after the turns, so they always
+    // mirror the image as it is shown.
+    quarterTurns: number;
+    flipHorizontal: boolean;
+    flipVertical: boolean;
+}
+
+export const IDENTITY_TRANSFORM: ImageTransform = { quarterTurns: 0, flipHorizontal: false, flipVertical: false };
+
+// Turns the image as shown by `turns` clockwise quarter turns. With a single flip on
+// top of the rotation, the stored turns have to run the other way.
+export const rotateTransform = (transform: ImageTransform, turns: number): ImageTransform => {
+    const direction = transform.flipHorizontal !== transform.flipVertical ? -1 : 1;
+    return { ...transform, quarterTurns: (((transform.quarterTurns + direction * turns) % 4) + 4) % 4 };
+};
+
+export const transformImageCanvas = (source: HTMLImageElement, { quarterTurns, flipHorizontal, flipVertical }: ImageTransform): HTMLCanvasElement => {
+    const turns = ((quarterTurns % 4) + 4) % 4;
+    const sideways = turns % 2 === 1;
+    const width = source.naturalWidth;
+    const height = source.naturalHeight;
+    const canvas = document.createElement('canvas');
+    canvas.width = sideways ? height : width;
+    canvas.height = sideways ? width : height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+    ctx.translate(canvas.width / 2, canvas.height / 2);
+    ctx.scale(flipHorizontal ? -1 : 1, flipVertical ? -1 : 1);
+    ctx.rotate(turns * Math.PI / 2);
+    ctx.drawImage(source, -width / 2, -height / 2);
+    return canvas;
+};
+
+// The largest rectangle of the given aspect ratio (width / height) centered in the
+// image, or the whole image when the ratio is free.
+export const centeredCropRect = (width: number, height: number, ratio: number | null): CropRect => {
+    if (!ratio) return { x: 0, y: 0, width, height };
+    const cropWidth = Math.min(width, height * ratio);
+    const cropHeight = cropWidth / ratio;
+    return { x: (width - cropWidth) / 2, y: (height - cropHeight) / 2, width: cropWidth, height: cropHeight };
+};
+
+// The rectangle spanned from a fixed `anchor` corner towards `point`, kept inside
+// the image and, when a ratio is set, shrunk to that ratio.
+export const spanCropRect = (anchor: { x: number; y: number }, point: { x: number; y: number }, width: number, height: number, ratio: number | null): CropRect => {
+    const directionX = point.x >= anchor.x ? 1 : -1;
+    const directionY = point.y >= anchor.y ? 1 : -1;
+    const maxWidth = directionX > 0 ? width - anchor.x : anchor.x;
+    const maxHeight = directionY > 0 ? height - anchor.y : anchor.y;
+    let spanWidth = Math.min(Math.abs(point.x - anchor.x), maxWidth);
+    let spanHeight = Math.min(Math.abs(point.y - anchor.y), maxHeight);
+    if (ratio) {
+        if (spanWidth / ratio > spanHeight) spanWidth = spanHeight * ratio;
+        else spanHeight = spanWidth / ratio;
+    }
+    return {
+        x: directionX > 0 ? anchor.x : anchor.x - spanWidth,
+        y: directionY > 0 ? anchor.y : anchor.y - spanHeight,
+        width: spanWidth,
+        height: spanHeight,
+    };
+};
+
+export const moveCropRect = (rect: CropRect, dx: number, dy: number, width: number, height: number): CropRect => ({
+    ...rect,
+    x: Math.min(width - rect.width, Math.max(0, rect.x + dx)),
+    y: Math.min(height - rect.height, Math.max(0, rect.y + dy)),
+});
+
+export const cropCanvas = (source: HTMLCanvasElement, rect: CropRect): HTMLCanvasElement => {
+    const x = Math.round(rect.x);
+    const y = Math.round(rect.y);
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.min(source.width - x, Math.round(rect.width)));
+    canvas.height = Math.max(1, Math.min(source.height - y, Math.round(rect.height)));
+    canvas.getContext('2d')?.drawImage(source, x, y, canvas.width, canvas.height, 0, 0, canvas.width, canvas.height);
+    return canvas;
+};
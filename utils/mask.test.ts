@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { featherMaskData } from './mask';
+
+// Only the alpha channel matters to the mask filters.
+const alphaImage = (width: number, height: number, alphaAt: (x: number, y: number) => number) => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data[(y * width + x) * 4 + 3] = alphaAt(x, y);
+  }
+  return { width, height, data, colorSpace: 'srgb' } as ImageData;
+};
+
+const alphaOf = (image: ImageData, x: number, y: number) => image.data[(y * image.width + x) * 4 + 3];
+
+describe('featherMaskData', () => {
+  it('softens a hard edge symmetrically', () => {
+    const image = alphaImage(21, 1, x => x < 10 ? 255 : 0);
+    featherMaskData(image, 6);
+    expect(alphaOf(image, 0, 0)).toBe(255);
+    expect(alphaOf(image, 20, 0)).toBe(0);
+    expect(alphaOf(image, 9, 0)).toBeGreaterThan(alphaOf(image, 10, 0));
+    expect(alphaOf(image, 10, 0)).toBeGreaterThan(0);
+    expect(alphaOf(image, 9, 0)).toBeLessThan(255);
+  });
+
+  it('leaves the mask alone for radii below one box blur step', () => {
+    const image = alphaImage(5, 5, (x, y) => x === 2 && y === 2 ? 255 : 0);
+    featherMaskData(image, 1);
+    expect(alphaOf(image, 2, 2)).toBe(255);
+    expect(alphaOf(image, 1, 2)).toBe(0);
+  });
+});
@@ -0,0 +1,237 @@
+// Helpers for the masking editor's offscreen buffer. The buffer lives at the base
+// image's native resolution and marks masked pixels with MASK_COLOR; the alpha
+// channel is the coverage, so transparent pixels are unmasked and partially
+// transparent ones are soft edges.
+
+export const MASK_COLOR = 'red';
+
+export const createMaskBuffer = (width: number, height: number): HTMLCanvasElement => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+};
+
+export const loadImageElement = (src: string): Promise<HTMLImageElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error('Failed to load image.'));
+        img.src = src;
+    });
+};
+
+// Draws a black/white mask image into the buffer, stretched to the buffer's size.
+// Luminance becomes coverage, so white is masked and black is not.
+export const drawMaskImageIntoBuffer = (buffer: HTMLCanvasElement, maskImg: CanvasImageSource) => {
+    const ctx = buffer.getContext('2d');
+    if (!ctx) return;
+    const temp = createMaskBuffer(buffer.width, buffer.height);
+    const tempCtx = temp.getContext('2d');
+    if (!tempCtx) return;
+    tempCtx.drawImage(maskImg, 0, 0, buffer.width, buffer.height);
+    const imageData = tempCtx.getImageData(0, 0, buffer.width, buffer.height);
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+        data[i] = 255;
+        data[i + 1] = 0;
+        data[i + 2] = 0;
+        data[i + 3] = Math.round(luminance * data[i + 3] / 255);
+    }
+    tempCtx.putImageData(imageData, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.drawImage(temp, 0, 0);
+};
+
+type AlphaLineFilter = (src: Float32Array, dst: Float32Array, start: number, stride: number, length: number) => void;
+
+// Runs a 1D filter over every row, then every column, of an alpha plane.
+const filterSeparable = (alpha: Float32Array, width: number, height: number, filter: AlphaLineFilter) => {
+    const temp = new Float32Array(alpha.length);
+    for (let y = 0; y < height; y++) filter(alpha, temp, y * width, 1, width);
+    for (let x = 0; x < width; x++) filter(temp, alpha, x, width, height);
+};
+
+const boxBlurLine = (radius: number): AlphaLineFilter => (src, dst, start, stride, length) => {
+    const at = (i: number) => src[start + Math.min(length - 1, Math.max(0, i)) * stride];
+    const size = radius * 2 + 1;
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) sum += at(i);
+    for (let i = 0; i < length; i++) {
+        dst[start + i * stride] = sum / size;
+        sum += at(i + radius + 1) - at(i - radius);
+    }
+};
+
+// Sliding-window max (dilate) or min (erode) using a monotonic deque.
+const morphLine = (radius: number, dilate: boolean): AlphaLineFilter => {
+    let deque = new Int32Array(0);
+    return (src, dst, start, stride, length) => {
+        if (deque.length < length) deque = new Int32Array(length);
+        const value = (i: number) => src[start + i * stride];
+        const dominates = (a: number, b: number) => dilate ? a >= b : a <= b;
+        let head = 0;
+        let tail = 0;
+        let next = 0;
+        for (let i = 0; i < length; i++) {
+            const windowEnd = Math.min(length - 1, i + radius);
+            while (next <= windowEnd) {
+                while (tail > head && dominates(value(next), value(deque[tail - 1]))) tail--;
+                deque[tail++] = next++;
+            }
+            while (deque[head] < i - radius) head++;
+            dst[start + i * stride] = value(deque[head]);
+        }
+    };
+};
+
+const readAlpha = (imageData: ImageData): Float32Array => {
+    const alpha = new Float32Array(imageData.width * imageData.height);
+    for (let i = 0; i < alpha.length; i++) alpha[i] = imageData.data[i * 4 + 3];
+    return alpha;
+};
+
+const writeAlpha = (imageData: ImageData, alpha: Float32Array) => {
+    for (let i = 0; i < alpha.length; i++) imageData.data[i * 4 + 3] = Math.round(alpha[i]);
+};
+
+// Softens mask edges. Three box blur passes approximate a Gaussian of about `radius` px.
+export const featherMaskData = (imageData: ImageData, radius: number) => {
+    const boxRadius = Math.round(radius / 3);
+    if (boxRadius < 1) return;
+    const alpha = readAlpha(imageData);
+    for (let pass = 0; pass < 3; pass++) {
+        filterSeparable(alpha, imageData.width, imageData.height, boxBlurLine(boxRadius));
+    }
+    writeAlpha(imageData, alpha);
+};
+
+// Grows (positive radius) or shrinks (negative radius) the masked area in place.
+export const morphMaskBuffer = (buffer: HTMLCanvasElement, radius: number) => {
+    const ctx = buffer.getContext('2d');
+    const size = Math.round(Math.abs(radius));
+    if (!ctx || size < 1) return;
+    const imageData = ctx.getImageData(0, 0, buffer.width, buffer.height);
+    const alpha = readAlpha(imageData);
+    filterSeparable(alpha, buffer.width, buffer.height, morphLine(size, radius > 0));
+    for (let i = 0; i < alpha.length; i++) {
+        imageData.data[i * 4] = 255;
+        imageData.data[i * 4 + 1] = 0;
+        imageData.data[i * 4 + 2] = 0;
+    }
+    writeAlpha(imageData, alpha);
+    ctx.putImageData(imageData, 0, 0);
+};
+
+export interface MaskExportOptions {
+    // Blur radius in image pixels applied to the mask edges.
+    feather?: number;
+    // Keep partial coverage as gray levels instead of thresholding to black/white.
+    grayscale?: boolean;
+}
+
+// Renders the buffer as an opaque mask PNG data URL of the same size: white where
+// masked, black elsewhere. Binary output is thresholded at half coverage.
+export const exportMaskDataUrl = (buffer: HTMLCanvasElement, { feather = 0, grayscale = false }: MaskExportOptions = {}): string | null => {
+    const bufferCtx = buffer.getContext('2d');
+    const output = createMaskBuffer(buffer.width, buffer.height);
+    const outputCtx = output.getContext('2d');
+    if (!bufferCtx || !outputCtx) return null;
+
+    const imageData = bufferCtx.getImageData(0, 0, buffer.width, buffer.height);
+    if (feather > 0) {
+        featherMaskData(imageData, feather);
+    }
+    const data = imageData.data;
+    for (let i = 0; i < data.length; i += 4) {
+        const coverage = data[i + 3];
+        const value = grayscale ? coverage : coverage >= 128 ? 255 : 0;
+        data[i] = value;
+        data[i + 1] = value;
+        data[i + 2] = value;
+        data[i + 3] = 255;
+    }
+    outputCtx.putImageData(imageData, 0, 0);
+    return output.toDataURL('image/png');
+};
+
+// Magic wand: the region of pixels connected to (x, y) whose color is within
+// `tolerance` (0-100) of the seed color, returned as an opaque MASK_COLOR layer.
+export const createFloodFillLayer = (source: ImageData, x: number, y: number, tolerance: number): HTMLCanvasElement => {
+    const { width, height, data } = source;
+    const layer = createMaskBuffer(width, height);
+    const startX = Math.floor(x);
+    const startY = Math.floor(y);
+    if (startX < 0 || startY < 0 || startX >= width || startY >= height) return layer;
+    const layerCtx = layer.getContext('2d');
+    if (!layerCtx) return layer;
+
+    const threshold = (tolerance / 100) * 255;
+    const seed = (startY * width + startX) * 4;
+    const [seedR, seedG, seedB] = [data[seed], data[seed + 1], data[seed + 2]];
+    const matches = (pixel: number) => {
+        const offset = pixel * 4;
+        return Math.abs(data[offset] - seedR) <= threshold
+            && Math.abs(data[offset + 1] - seedG) <= threshold
+            && Math.abs(data[offset + 2] - seedB) <= threshold;
+    };
+
+    const filled = new Uint8Array(width * height);
+    const stack = [startY * width + startX];
+    filled[stack[0]] = 1;
+    const visit = (neighbor: number) => {
+        if (!filled[neighbor] && matches(neighbor)) {
+            filled[neighbor] = 1;
+            stack.push(neighbor);
+        }
+    };
+    while (stack.length > 0) {
+        const pixel = stack.pop()!;
+        const px = pixel % width;
+        if (px > 0) visit(pixel - 1);
+        if (px < width - 1) visit(pixel + 1);
+        if (pixel >= width) visit(pixel - width);
+        if (pixel < filled.length - width) visit(pixel + width);
+    }
+
+    const output = layerCtx.createImageData(width, height);
+    for (let pixel = 0; pixel < filled.length; pixel++) {
+        if (filled[pixel]) {
+            output.data[pixel * 4] = 255;
+            output.data[pixel * 4 + 3] = 255;
+        }
+    }
+    layerCtx.putImageData(output, 0, 0);
+    return layer;
+};
+
+// Converts a mask made elsewhere into the studio's format: an opaque grayscale PNG
+// at the base image's size. Masks with transparency use their alpha channel as
+// coverage; opaque masks use luminance, so white is masked.
+export const importMaskDataUrl = async (maskUrl: string, width: number, height: number): Promise<string> => {
+    const maskImg = await loadImageElement(maskUrl);
+    const canvas = createMaskBuffer(width, height);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas 2D context is not available.');
+    ctx.drawImage(maskImg, 0, 0, width, height);
+
+    const imageData = ctx.getImageData(0, 0, width, height);
+    const data = imageData.data;
+    let hasTransparency = false;
+    for (let i = 3; i < data.length; i += 4) {
+        if (data[i] < 255) { hasTransparency = true; break; }
+    }
+    for (let i = 0; i < data.length; i += 4) {
+        const coverage = hasTransparency
+            ? data[i + 3]
+            : Math.round(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]);
+        data[i] = coverage;
+        data[i + 1] = coverage;
+        data[i + 2] = coverage;
+        data[i + 3] = 255;
+    }
+    ctx.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
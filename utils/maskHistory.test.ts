@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { MaskSession } from './maskHistory';
+
+// Sessions live in module state, so every test starts from a fresh copy.
+const loadMaskHistory = async () => {
+  vi.resetModules();
+  return import('./maskHistory');
+};
+
+const session = (expectedInitialMask: string | null = null): MaskSession => ({
+  baseline: null,
+  expectedInitialMask,
+  history: { commands: [], cursor: 0 },
+});
+
+const imageUrl = (n: number) => `data:image/png;base64,${'A'.repeat(1000)}${n}`;
+
+let maskHistory: Awaited<ReturnType<typeof loadMaskHistory>>;
+
+beforeEach(async () => {
+  maskHistory = await loadMaskHistory();
+});
+
+describe('mask sessions', () => {
+  it('are restored only for the mask they expect', () => {
+    maskHistory.saveMaskSession(imageUrl(1), session('data:mask'));
+    expect(maskHistory.getMaskSession(imageUrl(1), 'data:mask')).not.toBeNull();
+    expect(maskHistory.getMaskSession(imageUrl(1), null)).toBeNull();
+    expect(maskHistory.getMaskSession(imageUrl(2), 'data:mask')).toBeNull();
+  });
+
+  it('keep only the most recently used images', () => {
+    for (let n = 1; n <= 9; n++) maskHistory.saveMaskSession(imageUrl(n), session());
+    expect(maskHistory.getMaskSession(imageUrl(1), null)).toBeNull();
+    expect(maskHistory.getMaskSession(imageUrl(2), null)).not.toBeNull();
+    // Saving again makes an image the most recent one.
+    maskHistory.saveMaskSession(imageUrl(2), session());
+    maskHistory.saveMaskSession(imageUrl(10), session());
+    expect(maskHistory.getMaskSession(imageUrl(2), null)).not.toBeNull();
+    expect(maskHistory.getMaskSession(imageUrl(3), null)).toBeNull();
+  });
+
+  it('are dropped when their image is discarded', () => {
+    maskHistory.saveMaskSession(imageUrl(1), session());
+    maskHistory.saveMaskSession(imageUrl(2), session());
+    maskHistory.discardMaskSessions([imageUrl(1)]);
+    expect(maskHistory.getMaskSession(imageUrl(1), null)).toBeNull();
+    expect(maskHistory.getMaskSession(imageUrl(2), null)).not.toBeNull();
+  });
+});
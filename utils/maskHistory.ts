@@ -0,0 +1,221 @@
+import { MASK_COLOR, createMaskBuffer, createFloodFillLayer, morphMaskBuffer } from './mask';
+
+// Masking edits are recorded as commands so they can be undone by replaying the
+// remaining ones on top of the mask the session started from.
+
+export interface MaskPoint {
+    x: number;
+    y: number;
+    // Brush size at this point when it varies along the stroke (pen pressure).
+    size?: number;
+}
+
+export type MaskShapeCommand =
+    | { type: 'rectangle' | 'ellipse'; erase: boolean; x: number; y: number; width: number; height: number }
+    | { type: 'lasso'; erase: boolean; points: MaskPoint[] };
+
+export type MaskCommand =
+    // Hardness is 0-100; strokes recorded before it existed are fully hard.
+    | { type: 'stroke'; erase: boolean; size: number; hardness?: number; points: MaskPoint[] }
+    | MaskShapeCommand
+    | { type: 'fill'; erase: boolean; x: number; y: number; tolerance: number }
+    // Positive radius grows the mask, negative shrinks it (image pixels).
+    | { type: 'morph'; radius: number }
+    | { type: 'invert' }
+    | { type: 'clear' };
+
+export interface MaskHistory {
+    commands: MaskCommand[];
+    // Number of commands currently applied; anything after it can be redone.
+    cursor: number;
+}
+
+export const emptyMaskHistory: MaskHistory = { commands: [], cursor: 0 };
+
+export const pushMaskCommand = (history: MaskHistory, command: MaskCommand): MaskHistory => ({
+    commands: [...history.commands.slice(0, history.cursor), command],
+    cursor: history.cursor + 1,
+});
+
+// Soft brushes are drawn as overlapping radial-gradient dabs; a fully hard brush
+// is a plain round line.
+const drawSoftSegment = (ctx: CanvasRenderingContext2D, size: number, hardness: number, from: MaskPoint, to: MaskPoint) => {
+    const radius = size / 2;
+    const innerRadius = radius * hardness / 100;
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    const steps = Math.max(1, Math.ceil(distance / Math.max(1, radius / 4)));
+    // A continuing segment skips its first dab, which the previous segment already drew.
+    const firstStep = distance === 0 ? 0 : 1;
+    for (let step = firstStep; step <= steps; step++) {
+        if (distance === 0 && step > 0) break;
+        const x = from.x + (to.x - from.x) * step / steps;
+        const y = from.y + (to.y - from.y) * step / steps;
+        const gradient = ctx.createRadialGradient(x, y, innerRadius, x, y, radius);
+        gradient.addColorStop(0, 'rgba(255, 0, 0, 1)');
+        gradient.addColorStop(1, 'rgba(255, 0, 0, 0)');
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+    }
+};
+
+export const drawStrokeSegment = (ctx: CanvasRenderingContext2D, erase: boolean, size: number, from: MaskPoint, to: MaskPoint, hardness = 100) => {
+    if (hardness < 100) {
+        ctx.globalAlpha = 1;
+        ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+        drawSoftSegment(ctx, size, hardness, from, to);
+        ctx.globalCompositeOperation = 'source-over';
+        return;
+    }
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = size;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+export const invertMaskBuffer = (buffer: HTMLCanvasElement) => {
+    const ctx = buffer.getContext('2d');
+    const temp = createMaskBuffer(buffer.width, buffer.height);
+    const tempCtx = temp.getContext('2d');
+    if (!ctx || !tempCtx) return;
+    tempCtx.drawImage(buffer, 0, 0);
+
+    // Fill everything, then punch out the original mask shape
+    ctx.clearRect(0, 0, buffer.width, buffer.height);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = MASK_COLOR;
+    ctx.fillRect(0, 0, buffer.width, buffer.height);
+    ctx.globalCompositeOperation = 'destination-out';
+    ctx.drawImage(temp, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+// Traces a shape's outline in buffer coordinates, multiplied by `scale` for display.
+export const traceMaskShape = (ctx: CanvasRenderingContext2D, command: MaskShapeCommand, scale = 1) => {
+    ctx.beginPath();
+    if (command.type === 'lasso') {
+        command.points.forEach((point, index) => {
+            if (index === 0) ctx.moveTo(point.x * scale, point.y * scale);
+            else ctx.lineTo(point.x * scale, point.y * scale);
+        });
+        ctx.closePath();
+    } else if (command.type === 'rectangle') {
+        ctx.rect(command.x * scale, command.y * scale, command.width * scale, command.height * scale);
+    } else {
+        ctx.ellipse(
+            (command.x + command.width / 2) * scale,
+            (command.y + command.height / 2) * scale,
+            (command.width / 2) * scale,
+            (command.height / 2) * scale,
+            0, 0, Math.PI * 2
+        );
+    }
+};
+
+const compositeLayer = (ctx: CanvasRenderingContext2D, layer: HTMLCanvasElement, erase: boolean) => {
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = erase ? 'destination-out' : 'source-over';
+    ctx.drawImage(layer, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+};
+
+// `getSource` supplies the base image's pixels for the magic wand; it is only called
+// for fill commands.
+export const applyMaskCommand = (buffer: HTMLCanvasElement, command: MaskCommand, getSource: () => ImageData | null) => {
+    const ctx = buffer.getContext('2d');
+    if (!ctx) return;
+    switch (command.type) {
+        case 'stroke': {
+            const [first, ...rest] = command.points;
+            if (!first) return;
+            // A single click leaves a dot
+            drawStrokeSegment(ctx, command.erase, first.size ?? command.size, first, first, command.hardness);
+            let previous = first;
+            rest.forEach(point => {
+                drawStrokeSegment(ctx, command.erase, point.size ?? command.size, previous, point, command.hardness);
+                previous = point;
+            });
+            break;
+        }
+        case 'rectangle':
+        case 'ellipse':
+        case 'lasso':
+            ctx.globalAlpha = 1;
+            ctx.globalCompositeOperation = command.erase ? 'destination-out' : 'source-over';
+            ctx.fillStyle = MASK_COLOR;
+            traceMaskShape(ctx, command);
+            ctx.fill();
+            ctx.globalCompositeOperation = 'source-over';
+            break;
+        case 'fill': {
+            const source = getSource();
+            if (!source) return;
+            compositeLayer(ctx, createFloodFillLayer(source, command.x, command.y, command.tolerance), command.erase);
+            break;
+        }
+        case 'morph':
+            morphMaskBuffer(buffer, command.radius);
+            break;
+        case 'invert':
+            invertMaskBuffer(buffer);
+            break;
+        case 'clear':
+            ctx.clearRect(0, 0, buffer.width, buffer.height);
+            break;
+    }
+};
+
+// Sessions are kept per base image until the image is discarded, so closing the
+// editor and opening it again on the same image restores the undo history. Only the
+// most recently used ones are kept.
+export interface MaskSession {
+    // Mask the commands were recorded on top of.
+    baseline: string | null;
+    // Mask the studio is expected to pass back in when the editor reopens. If it
+    // passes anything else the mask was changed elsewhere and the session is stale.
+    expectedInitialMask: string | null;
+    history: MaskHistory;
+}
+
+const MAX_MASK_SESSIONS = 8;
+
+// Keyed by a hash of the image's data URL rather than the URL itself, which can run to
+// megabytes. Oldest first.
+const sessions = new Map<string, MaskSession>();
+
+// FNV-1a, with the length to make collisions between different images unlikely.
+const sessionKey = (imageUrl: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < imageUrl.length; i++) {
+        hash ^= imageUrl.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${imageUrl.length}:${(hash >>> 0).toString(36)}`;
+};
+
+export const getMaskSession = (imageUrl: string, initialMask: string | null): MaskSession | null => {
+    const session = sessions.get(sessionKey(imageUrl));
+    return session && session.expectedInitialMask === initialMask ? session : null;
+};
+
+export const saveMaskSession = (imageUrl: string, session: MaskSession) => {
+    const key = sessionKey(imageUrl);
+    sessions.delete(key);
+    sessions.set(key, session);
+    while (sessions.size > MAX_MASK_SESSIONS) {
+        sessions.delete(sessions.keys().next().value!);
+    }
+};
+
+export const discardMaskSessions = (imageUrls: string[]) => {
+    imageUrls.forEach(imageUrl => sessions.delete(sessionKey(imageUrl)));
+};
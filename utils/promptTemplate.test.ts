@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { extractTemplateVariables, fillTemplate } from './promptTemplate';
+
+describe('extractTemplateVariables', () => {
+  it('lists each variable once, in order of appearance', () => {
+    expect(extractTemplateVariables('{{ subject }} in {{style}}, {{subject}} again, {{颜色}}')).toEqual(['subject', 'style', '颜色']);
+  });
+
+  it('ignores braces that are not variables', () => {
+    expect(extractTemplateVariables('{single} {{}} {{ bad!name }}')).toEqual([]);
+  });
+});
+
+describe('fillTemplate', () => {
+  it('replaces variables that have a value and keeps the rest', () => {
+    expect(fillTemplate('{{subject}} in {{ style }}', { subject: ' a fox ', style: '  ' })).toBe('a fox in {{ style }}');
+  });
+});
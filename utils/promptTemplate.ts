@@ -0,0 +1,18 @@
+// Prompt templates mark their variables as {{name}}. Names may contain letters in
+// any script, digits, spaces, dashes and underscores; surrounding spaces are ignored.
+
+const VARIABLE_PATTERN = /\{\{\s*([\p{L}\p{N}_\- ]+?)\s*\}\}/gu;
+
+// Variable names in order of first appearance.
+export const extractTemplateVariables = (text: string): string[] => {
+    const names: string[] = [];
+    for (const match of text.matchAll(VARIABLE_PATTERN)) {
+        if (!names.includes(match[1])) names.push(match[1]);
+    }
+    return names;
+};
+
+// Replaces every variable that has a non-empty value; the rest are left in place
+// so it is obvious what still needs filling in.
+export const fillTemplate = (text: string, values: Record<string, string>): string =>
+    text.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name]?.trim() ? values[name].trim() : placeholder);
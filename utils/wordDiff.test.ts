@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { diffWords } from './wordDiff';
+
+const join = (segments: ReturnType<typeof diffWords>, skip: 'added' | 'removed') =>
+  segments.filter(segment => segment.type !== skip).map(segment => segment.text).join('');
+
+describe('diffWords', () => {
+  it('marks removed and added words', () => {
+    expect(diffWords('a red fox', 'a small red cat')).toEqual([
+      { type: 'same', text: 'a ' },
+      { type: 'added', text: 'small ' },
+      { type: 'same', text: 'red ' },
+      { type: 'removed', text: 'fox' },
+      { type: 'added', text: 'cat' },
+    ]);
+  });
+
+  it('joins back into both texts, whitespace included', () => {
+    const before = 'a cat  on\na mat';
+    const after = 'the cat sits on\na red mat, at dusk';
+    const segments = diffWords(before, after);
+    expect(join(segments, 'added')).toBe(before);
+    expect(join(segments, 'removed')).toBe(after);
+  });
+
+  it('returns a single segment for identical texts', () => {
+    expect(diffWords('same words', 'same words')).toEqual([{ type: 'same', text: 'same words' }]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zip';
+
+const readZip = async (blob: Blob) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const end = bytes.length - 22;
+  const entries: { name: string; crc: number; data: string }[] = [];
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const size = view.getUint32(localOffset + 18, true);
+    const localNameLength = view.getUint16(localOffset + 26, true);
+    const dataStart = localOffset + 30 + localNameLength;
+    entries.push({
+      name: new TextDecoder().decode(bytes.slice(offset + 46, offset + 46 + nameLength)),
+      crc: view.getUint32(offset + 16, true),
+      data: new TextDecoder().decode(bytes.slice(dataStart, dataStart + size)),
+    });
+    offset += 46 + nameLength;
+  }
+  return { signature: view.getUint32(0, true), endSignature: view.getUint32(end, true), entries };
+};
+
+describe('createZip', () => {
+  it('stores every entry with its name, contents and CRC-32', async () => {
+    const zip = await readZip(await createZip([
+      { name: 'manifest.json', data: '{"rows":[]}' },
+      { name: 'results/héllo.txt', data: new Blob(['hello']) },
+    ]));
+
+    expect(zip.signature).toBe(0x04034b50);
+    expect(zip.endSignature).toBe(0x06054b50);
+    expect(zip.entries.map(entry => entry.name)).toEqual(['manifest.json', 'results/héllo.txt']);
+    expect(zip.entries[1].data).toBe('hello');
+    expect(zip.entries[1].crc).toBe(0x3610a686);
+  });
+
+  it('writes a valid archive with no entries', async () => {
+    const blob = await createZip([]);
+    expect(blob.size).toBe(22);
+    expect(blob.type).toBe('application/zip');
+  });
+});
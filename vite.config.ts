@@ -12,7 +12,14 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GENERATION_PROVIDER': JSON.stringify(env.GENERATION_PROVIDER),
+        'process.env.MAX_IMAGE_DIMENSION': JSON.stringify(env.MAX_IMAGE_DIMENSION),
+        'process.env.IMAGE_MODELS': JSON.stringify(env.IMAGE_MODELS),
+        'process.env.QUEUE_CONCURRENCY': JSON.stringify(env.QUEUE_CONCURRENCY),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL),
+        'process.env.GEMINI_REQUESTS_PER_MINUTE': JSON.stringify(env.GEMINI_REQUESTS_PER_MINUTE),
+        'process.env.MODEL_PRICES': JSON.stringify(env.MODEL_PRICES)
       },
       resolve: {
         alias: {
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Kept apart from vite.config.ts, whose `define` would replace the process.env
+// settings that tests set themselves.
+export default defineConfig({
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**'],
+  },
+});